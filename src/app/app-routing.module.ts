@@ -6,22 +6,50 @@ import { LoginComponent } from './features/auth/login/login.component';
 import { RegisterComponent } from './features/auth/register/register.component';
 import { OrderListComponent } from './features/orders/order-list/order-list.component';
 import { OrderDetailComponent } from './features/orders/order-detail/order-detail.component';
+import { OrderInvoiceComponent } from './features/orders/order-invoice/order-invoice.component';
+import { WishlistComponent } from './features/wishlist/wishlist.component';
 import { CheckoutComponent } from './features/cart/checkout/checkout.component';
-import { AdminComponent } from './features/admin/admin.component';
+import { authGuard } from './core/guards/auth.guard';
+import { roleGuard } from './core/guards/role.guard';
+import { guestGuard } from './core/guards/guest.guard';
 
 const routes: Routes = [
   { path: '', redirectTo: '/products', pathMatch: 'full' },
-  { path: 'login', component: LoginComponent },
+  { path: 'login', component: LoginComponent, canActivate: [guestGuard] },
   { path: 'products', component: ProductListComponent },
   {
     path: 'products/:id',
     component: ProductDetailComponent,
   },
-  { path: 'register', component: RegisterComponent },
-  { path: 'checkout', component: CheckoutComponent },
-  { path: 'orders', component: OrderListComponent },
-  { path: 'orders/:id', component: OrderDetailComponent },
-  { path: 'admin', component: AdminComponent },
+  { path: 'wishlist', component: WishlistComponent },
+  {
+    path: 'register',
+    component: RegisterComponent,
+    canActivate: [guestGuard],
+  },
+  {
+    path: 'checkout',
+    component: CheckoutComponent,
+    canActivate: [authGuard],
+  },
+  { path: 'orders', component: OrderListComponent, canActivate: [authGuard] },
+  {
+    path: 'orders/:id',
+    component: OrderDetailComponent,
+    canActivate: [authGuard],
+  },
+  {
+    path: 'orders/:id/invoice',
+    component: OrderInvoiceComponent,
+    canActivate: [authGuard],
+  },
+  {
+    path: 'admin',
+    loadChildren: () =>
+      import('./features/admin/admin.module').then((m) => m.AdminModule),
+    canActivate: [roleGuard],
+    data: { roles: ['Admin'] },
+  },
   { path: '**', redirectTo: '/login' },
 ];
 
@@ -10,6 +10,8 @@ import { filter } from 'rxjs/operators';
       <router-outlet></router-outlet>
     </main>
     <app-footer *ngIf="!isAdminRoute"></app-footer>
+    <app-session-warning></app-session-warning>
+    <app-toast-container></app-toast-container>
   `,
   styleUrls: ['./app.component.css'],
 })
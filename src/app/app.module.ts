@@ -1,52 +1,83 @@
-import { NgModule } from '@angular/core';
+import { APP_INITIALIZER, NgModule } from '@angular/core';
 import { BrowserModule } from '@angular/platform-browser';
-import { HttpClientModule, HTTP_INTERCEPTORS } from '@angular/common/http';
+import {
+  HttpBackend,
+  HttpClientModule,
+  HTTP_INTERCEPTORS,
+} from '@angular/common/http';
 import { FormsModule, ReactiveFormsModule } from '@angular/forms';
 
 import { AppRoutingModule } from './app-routing.module';
+import { SharedModule } from './shared/shared.module';
 import { AuthInterceptor } from './core/interceptors/auth.interceptor';
+import { ErrorInterceptor } from './core/interceptors/error.interceptor';
+import { API_CONFIG } from './core/config/api-config';
+import { loadRuntimeConfig } from './core/config/runtime-config';
 import { AppComponent } from './app.component';
 import { ProductListComponent } from './features/products/product-list/product-list.component';
 import { ProductDetailComponent } from './features/products/product-detail/product-detail.component';
+import { ProductReviewsComponent } from './features/products/product-reviews/product-reviews.component';
+import { ProductCardComponent } from './features/products/product-card/product-card.component';
+import { ProductCarouselComponent } from './features/products/product-carousel/product-carousel.component';
 import { LoginComponent } from './features/auth/login/login.component';
 import { RegisterComponent } from './features/auth/register/register.component';
 import { HeaderComponent } from './shared/header/header.component';
+import { HeaderSearchComponent } from './shared/header-search/header-search.component';
 import { FooterComponent } from './shared/footer/footer.component';
+import { SessionWarningComponent } from './shared/session-warning/session-warning.component';
+import { ToastContainerComponent } from './shared/toast-container/toast-container.component';
+import { WishlistButtonComponent } from './shared/wishlist-button/wishlist-button.component';
+import { PromoCodeComponent } from './shared/promo-code/promo-code.component';
+import { WishlistComponent } from './features/wishlist/wishlist.component';
 import { CheckoutComponent } from './features/cart/checkout/checkout.component';
 import { OrderListComponent } from './features/orders/order-list/order-list.component';
 import { OrderDetailComponent } from './features/orders/order-detail/order-detail.component';
-import { AdminComponent } from './features/admin/admin.component';
-import { AdminProductsComponent } from './features/admin/admin-products/admin-products.component';
-import { AdminCategoriesComponent } from './features/admin/admin-categories/admin-categories.component';
-import { AdminOrdersComponent } from './features/admin/admin-orders/admin-orders.component';
-import { AdminUsersComponent } from './features/admin/admin-users/admin-users.component';
+import { OrderInvoiceComponent } from './features/orders/order-invoice/order-invoice.component';
 
 @NgModule({
   declarations: [
     AppComponent,
     ProductListComponent,
     ProductDetailComponent,
+    ProductReviewsComponent,
+    ProductCardComponent,
+    ProductCarouselComponent,
     LoginComponent,
     RegisterComponent,
     HeaderComponent,
+    HeaderSearchComponent,
     FooterComponent,
+    SessionWarningComponent,
+    ToastContainerComponent,
+    WishlistButtonComponent,
+    PromoCodeComponent,
+    WishlistComponent,
     CheckoutComponent,
     OrderListComponent,
     OrderDetailComponent,
-    AdminComponent,
-    AdminProductsComponent,
-    AdminCategoriesComponent,
-    AdminOrdersComponent,
-    AdminUsersComponent,
+    OrderInvoiceComponent,
   ],
   imports: [
     BrowserModule,
     AppRoutingModule,
+    SharedModule,
     HttpClientModule,
     FormsModule, // Required for [(ngModel)] two-way binding
     ReactiveFormsModule, // Required for reactive forms
   ],
   providers: [
+    {
+      provide: APP_INITIALIZER,
+      useFactory: loadRuntimeConfig,
+      deps: [HttpBackend, API_CONFIG],
+      multi: true,
+    },
+    {
+      // Registered first so it handles errors after AuthInterceptor
+      provide: HTTP_INTERCEPTORS,
+      useClass: ErrorInterceptor,
+      multi: true,
+    },
     {
       provide: HTTP_INTERCEPTORS,
       useClass: AuthInterceptor,
@@ -0,0 +1,38 @@
+import { InjectionToken } from '@angular/core';
+import { environment } from 'src/environments/environment';
+
+/**
+ * API configuration shared by all HTTP services
+ */
+export interface ApiConfig {
+  apiBaseUrl: string;
+  // The API deduplicates POSTs carrying an Idempotency-Key header;
+  // only then are product uploads retried once data was sent
+  supportsIdempotencyKeys?: boolean;
+}
+
+/**
+ * Injection token for the API configuration
+ * Defaults come from the environment file; `loadRuntimeConfig` may
+ * override them from `assets/config.json` before the app starts
+ */
+export const API_CONFIG = new InjectionToken<ApiConfig>('API_CONFIG', {
+  providedIn: 'root',
+  factory: () => ({
+    apiBaseUrl: environment.apiBaseUrl,
+    supportsIdempotencyKeys: environment.supportsIdempotencyKeys,
+  }),
+});
+
+/**
+ * Build an API URL from the configured base URL and path segments
+ * e.g. buildApiUrl(config, 'product', id) => http://host/api/product/{id}
+ */
+export function buildApiUrl(config: ApiConfig, ...segments: string[]): string {
+  const base = config.apiBaseUrl.replace(/\/+$/, '');
+  const path = segments
+    .map((segment) => segment.replace(/^\/+|\/+$/g, ''))
+    .filter((segment) => segment.length > 0)
+    .join('/');
+  return path ? `${base}/${path}` : base;
+}
@@ -0,0 +1,44 @@
+/**
+ * Inventory rules shared by the catalog, cart and checkout
+ */
+
+/**
+ * Most units of one product a customer can order at once
+ */
+export const MAX_ORDER_QUANTITY = 99;
+
+/**
+ * At or below this many units the "only N left" badge is shown
+ */
+export const LOW_STOCK_THRESHOLD = 5;
+
+export type StockStatus = 'in-stock' | 'low-stock' | 'out-of-stock';
+
+/**
+ * Products without a reported stock are treated as in stock
+ */
+export function getStockStatus(stockQuantity?: number): StockStatus {
+  if (stockQuantity === undefined) return 'in-stock';
+  if (stockQuantity <= 0) return 'out-of-stock';
+  if (stockQuantity <= LOW_STOCK_THRESHOLD) return 'low-stock';
+  return 'in-stock';
+}
+
+/**
+ * Most units of a product a line can hold, within stock and the order limit
+ */
+export function getMaxOrderQuantity(stockQuantity?: number): number {
+  return stockQuantity === undefined
+    ? MAX_ORDER_QUANTITY
+    : Math.max(0, Math.min(stockQuantity, MAX_ORDER_QUANTITY));
+}
+
+/**
+ * How many more units can be added next to those already in the cart
+ */
+export function getAddableQuantity(
+  stockQuantity: number | undefined,
+  quantityInCart: number
+): number {
+  return Math.max(0, getMaxOrderQuantity(stockQuantity) - quantityInCart);
+}
@@ -0,0 +1,16 @@
+/**
+ * Seller details and tax settings printed on invoices
+ * Prices already include tax, so the tax line is extracted from the total.
+ * `taxRate` is the fallback for orders that don't carry their own rate;
+ * with neither, the invoice has no tax line.
+ */
+export const INVOICE_CONFIG = {
+  sellerName: 'E-Shop',
+  sellerAddress: [
+    '123 Main Street, City, State 12345',
+    '+1 (555) 123-4567',
+    'support@eshop.com',
+  ],
+  taxLabel: 'VAT',
+  taxRate: null as number | null,
+};
@@ -0,0 +1,42 @@
+import { OrderStatus } from 'src/app/shared/models';
+
+/**
+ * Order workflow
+ * The only allowed status changes: Pending → Processing → Shipped → Completed,
+ * and cancellation while the order has not shipped yet.
+ */
+export const ORDER_STATUS_TRANSITIONS: Readonly<
+  Record<OrderStatus, readonly OrderStatus[]>
+> = {
+  [OrderStatus.Pending]: [OrderStatus.Processing, OrderStatus.Cancelled],
+  [OrderStatus.Processing]: [OrderStatus.Shipped, OrderStatus.Cancelled],
+  [OrderStatus.Shipped]: [OrderStatus.Completed],
+  [OrderStatus.Completed]: [],
+  [OrderStatus.Cancelled]: [],
+};
+
+/**
+ * Statuses that can only be set with a reason
+ */
+export const ORDER_STATUSES_REQUIRING_REASON: readonly OrderStatus[] = [
+  OrderStatus.Cancelled,
+];
+
+export function getNextOrderStatuses(status: OrderStatus): OrderStatus[] {
+  return [...(ORDER_STATUS_TRANSITIONS[status] ?? [])];
+}
+
+export function canChangeOrderStatus(
+  from: OrderStatus,
+  to: OrderStatus
+): boolean {
+  return getNextOrderStatuses(from).includes(to);
+}
+
+export function isFinalOrderStatus(status: OrderStatus): boolean {
+  return getNextOrderStatuses(status).length === 0;
+}
+
+export function orderStatusRequiresReason(status: OrderStatus): boolean {
+  return ORDER_STATUSES_REQUIRING_REASON.includes(status);
+}
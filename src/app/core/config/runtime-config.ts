@@ -0,0 +1,37 @@
+import { HttpBackend, HttpClient } from '@angular/common/http';
+import { firstValueFrom } from 'rxjs';
+import { environment } from 'src/environments/environment';
+import { ApiConfig } from './api-config';
+
+/**
+ * APP_INITIALIZER factory that loads `assets/config.json` at startup
+ * so one build can be deployed to different environments.
+ * Uses HttpBackend to bypass interceptors (they depend on the config).
+ * Falls back to the environment defaults when the file is missing or invalid.
+ */
+export function loadRuntimeConfig(
+  httpBackend: HttpBackend,
+  config: ApiConfig
+): () => Promise<void> {
+  return async () => {
+    const http = new HttpClient(httpBackend);
+
+    try {
+      const runtimeConfig = await firstValueFrom(
+        http.get<Partial<ApiConfig>>(environment.runtimeConfigUrl)
+      );
+
+      if (runtimeConfig?.apiBaseUrl) {
+        config.apiBaseUrl = runtimeConfig.apiBaseUrl;
+      }
+      if (typeof runtimeConfig?.supportsIdempotencyKeys === 'boolean') {
+        config.supportsIdempotencyKeys = runtimeConfig.supportsIdempotencyKeys;
+      }
+    } catch (error) {
+      console.warn(
+        'Runtime config not loaded, using environment defaults:',
+        error
+      );
+    }
+  };
+}
@@ -0,0 +1,23 @@
+import { inject } from '@angular/core';
+import { CanActivateFn, Router } from '@angular/router';
+import { AuthService } from '../services/auth.service';
+
+/**
+ * Guest guard for login/register pages
+ * Sends already authenticated users to their return URL or default page
+ *
+ * Usage in routing:
+ * { path: 'login', component: LoginComponent, canActivate: [guestGuard] }
+ */
+export const guestGuard: CanActivateFn = (route) => {
+  const authService = inject(AuthService);
+  const router = inject(Router);
+
+  if (!authService.isAuthenticated()) {
+    return true;
+  }
+
+  return router.parseUrl(
+    authService.resolveReturnUrl(route.queryParamMap.get('returnUrl'))
+  );
+};
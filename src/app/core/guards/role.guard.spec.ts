@@ -0,0 +1,47 @@
+import { TestBed } from '@angular/core/testing';
+import {
+  ActivatedRouteSnapshot,
+  CanActivateFn,
+  Router,
+  RouterStateSnapshot,
+  UrlTree,
+} from '@angular/router';
+import { RouterTestingModule } from '@angular/router/testing';
+
+import { roleGuard } from './role.guard';
+import { AuthStore } from '../../store';
+
+describe('roleGuard', () => {
+  const executeGuard: CanActivateFn = (...guardParameters) =>
+    TestBed.runInInjectionContext(() => roleGuard(...guardParameters));
+
+  let authStore: AuthStore;
+  let router: Router;
+
+  const routeWithRoles = (roles: string[]) =>
+    ({ data: { roles } } as unknown as ActivatedRouteSnapshot);
+  const state = { url: '/admin' } as RouterStateSnapshot;
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({ imports: [RouterTestingModule] });
+    authStore = TestBed.inject(AuthStore);
+    router = TestBed.inject(Router);
+    authStore.clearAuth();
+  });
+
+  it('should redirect anonymous users to login with return URL', () => {
+    const result = executeGuard(routeWithRoles(['Admin']), state) as UrlTree;
+    expect(router.serializeUrl(result)).toBe('/login?returnUrl=%2Fadmin');
+  });
+
+  it('should allow users with a matching role', () => {
+    authStore.setAuth('token', 'user-1', 'admin@example.com', ['Admin']);
+    expect(executeGuard(routeWithRoles(['Admin']), state)).toBeTrue();
+  });
+
+  it('should redirect users without a matching role to products', () => {
+    authStore.setAuth('token', 'user-2', 'user@example.com', ['Customer']);
+    const result = executeGuard(routeWithRoles(['Admin']), state) as UrlTree;
+    expect(router.serializeUrl(result)).toBe('/products');
+  });
+});
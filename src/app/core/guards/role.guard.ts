@@ -0,0 +1,34 @@
+import { inject } from '@angular/core';
+import { CanActivateFn, Router } from '@angular/router';
+import { AuthStore } from '../../store';
+
+/**
+ * Role guard for protecting routes by user role
+ * Reads the allowed roles from route `data.roles`; the user needs at least one
+ * - Not authenticated: redirects to login with return URL
+ * - Authenticated without a matching role: redirects to products
+ *
+ * Usage in routing:
+ * { path: 'admin', component: AdminComponent, canActivate: [roleGuard], data: { roles: ['Admin'] } }
+ */
+export const roleGuard: CanActivateFn = (route, state) => {
+  const authStore = inject(AuthStore);
+  const router = inject(Router);
+
+  if (!authStore.isAuthenticated()) {
+    return router.createUrlTree(['/login'], {
+      queryParams: { returnUrl: state.url },
+    });
+  }
+
+  const allowedRoles: string[] = route.data['roles'] ?? [];
+  if (
+    allowedRoles.length === 0 ||
+    allowedRoles.some((role) => authStore.hasRole(role))
+  ) {
+    return true;
+  }
+
+  console.warn(`Access to ${state.url} denied: missing role`, allowedRoles);
+  return router.createUrlTree(['/products']);
+};
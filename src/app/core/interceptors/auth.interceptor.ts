@@ -1,50 +1,128 @@
-import { Injectable } from '@angular/core';
-import { 
-  HttpInterceptor, 
-  HttpRequest, 
-  HttpHandler, 
+import { Inject, Injectable } from '@angular/core';
+import {
+  HttpInterceptor,
+  HttpRequest,
+  HttpHandler,
   HttpEvent,
-  HttpErrorResponse 
+  HttpErrorResponse
 } from '@angular/common/http';
-import { Observable, throwError } from 'rxjs';
-import { catchError } from 'rxjs/operators';
+import { BehaviorSubject, Observable, throwError } from 'rxjs';
+import { catchError, filter, finalize, switchMap, take } from 'rxjs/operators';
 import { Router } from '@angular/router';
 import { AuthStore } from '../../store';
+import { AuthService } from '../services/auth.service';
+import { API_CONFIG, ApiConfig, buildApiUrl } from '../config/api-config';
 
 /**
  * HTTP Interceptor for authentication
  * - Automatically adds JWT token to outgoing requests
- * - Handles 401 Unauthorized errors by redirecting to login
+ * - On 401, refreshes the token once and replays the queued requests
+ * - Redirects to login when the session cannot be refreshed
  */
 @Injectable()
 export class AuthInterceptor implements HttpInterceptor {
+  // Shared by all requests that fail while a refresh is in flight
+  private isRefreshing = false;
+  private refreshedToken$ = new BehaviorSubject<string | null>(null);
+
   constructor(
     private authStore: AuthStore,
-    private router: Router
+    private authService: AuthService,
+    private router: Router,
+    @Inject(API_CONFIG) private apiConfig: ApiConfig
   ) {}
 
   intercept(req: HttpRequest<any>, next: HttpHandler): Observable<HttpEvent<any>> {
     // Clone request and add token if available
     const token = this.authStore.getToken();
-    
+
     if (token) {
-      req = req.clone({
-        setHeaders: {
-          Authorization: `Bearer ${token}`
-        }
-      });
+      req = this.addToken(req, token);
     }
 
     // Handle response errors
     return next.handle(req).pipe(
       catchError((error: HttpErrorResponse) => {
-        if (error.status === 401) {
-          // Token expired or invalid - redirect to login
-          this.authStore.clearAuth();
-          this.router.navigate(['/login']);
+        if (error.status !== 401 || this.isAuthRequest(req)) {
+          return throwError(() => error);
         }
+
+        // Another request already refreshed the token - just replay
+        const currentToken = this.authStore.getToken();
+        if (token && currentToken && currentToken !== token) {
+          return next.handle(this.addToken(req, currentToken));
+        }
+
+        if (token && this.authService.canRefresh()) {
+          return this.refreshAndRetry(req, next);
+        }
+
+        // Token expired or invalid - redirect to login, then come back
+        this.redirectToLogin();
+        return throwError(() => error);
+      })
+    );
+  }
+
+  /**
+   * Run a single refresh call; requests arriving meanwhile wait for its result
+   */
+  private refreshAndRetry(
+    req: HttpRequest<any>,
+    next: HttpHandler
+  ): Observable<HttpEvent<any>> {
+    if (this.isRefreshing) {
+      return this.refreshedToken$.pipe(
+        filter((token): token is string => token !== null),
+        take(1),
+        switchMap((token) => next.handle(this.addToken(req, token)))
+      );
+    }
+
+    this.isRefreshing = true;
+    this.refreshedToken$.next(null);
+
+    return this.authService.refreshToken().pipe(
+      switchMap((response) => {
+        this.refreshedToken$.next(response.token);
+        return next.handle(this.addToken(req, response.token));
+      }),
+      catchError((error) => {
+        // Release queued requests with an error instead of leaving them hanging
+        this.refreshedToken$.error(error);
+        this.refreshedToken$ = new BehaviorSubject<string | null>(null);
+        this.redirectToLogin();
         return throwError(() => error);
+      }),
+      finalize(() => {
+        this.isRefreshing = false;
       })
     );
   }
+
+  private addToken(req: HttpRequest<any>, token: string): HttpRequest<any> {
+    return req.clone({
+      setHeaders: {
+        Authorization: `Bearer ${token}`
+      }
+    });
+  }
+
+  /**
+   * Login/refresh failures must not trigger another refresh
+   */
+  private isAuthRequest(req: HttpRequest<any>): boolean {
+    const authUrl = buildApiUrl(this.apiConfig, 'auth');
+    return req.url.toLowerCase().startsWith(`${authUrl.toLowerCase()}/`);
+  }
+
+  private redirectToLogin(): void {
+    const currentUrl = this.router.url;
+    this.authStore.clearAuth();
+    this.router.navigate(['/login'], {
+      queryParams: {
+        returnUrl: currentUrl.startsWith('/login') ? undefined : currentUrl,
+      },
+    });
+  }
 }
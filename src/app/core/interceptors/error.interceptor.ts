@@ -0,0 +1,97 @@
+import { Injectable } from '@angular/core';
+import {
+  HttpInterceptor,
+  HttpRequest,
+  HttpHandler,
+  HttpEvent,
+  HttpErrorResponse,
+} from '@angular/common/http';
+import { Observable, throwError } from 'rxjs';
+import { catchError } from 'rxjs/operators';
+import { ApiError } from '../../shared/models';
+
+/**
+ * HTTP Interceptor for error normalization
+ * Maps every HttpErrorResponse to an ApiError with a user-facing message,
+ * so components can show `error.message` without parsing the response body.
+ * Registered before AuthInterceptor so it sees errors after token refresh.
+ */
+@Injectable()
+export class ErrorInterceptor implements HttpInterceptor {
+  intercept(
+    req: HttpRequest<any>,
+    next: HttpHandler
+  ): Observable<HttpEvent<any>> {
+    return next.handle(req).pipe(
+      catchError((error: unknown) => {
+        if (!(error instanceof HttpErrorResponse)) {
+          return throwError(() => error);
+        }
+        return throwError(() => this.toApiError(error));
+      })
+    );
+  }
+
+  private toApiError(error: HttpErrorResponse): ApiError {
+    const validationErrors = this.getValidationErrors(error);
+    const serverMessage = this.getServerMessage(error);
+
+    let message: string;
+    switch (true) {
+      case error.status === 0:
+        message =
+          'Cannot connect to server. Please check your connection and try again.';
+        break;
+      case error.status === 400:
+        message = validationErrors
+          ? Object.values(validationErrors).flat().join(' ')
+          : serverMessage ||
+            'The request was invalid. Please check your input.';
+        break;
+      case error.status === 401:
+        message =
+          serverMessage || 'Your session has expired. Please sign in again.';
+        break;
+      case error.status === 403:
+        message = 'You do not have permission to perform this action.';
+        break;
+      case error.status === 404:
+        message = serverMessage || 'The requested item was not found.';
+        break;
+      case error.status === 409:
+        message = serverMessage || 'This change conflicts with existing data.';
+        break;
+      case error.status >= 500:
+        message = 'Something went wrong on our side. Please try again later.';
+        break;
+      default:
+        message = serverMessage || 'An unexpected error occurred.';
+    }
+
+    return { message, status: error.status, validationErrors };
+  }
+
+  /**
+   * Read the message from `{ message }` or ProblemDetails (`detail`/`title`)
+   */
+  private getServerMessage(error: HttpErrorResponse): string | undefined {
+    const body = error.error;
+    if (typeof body === 'string') {
+      return body.trim() || undefined;
+    }
+    return body?.message || body?.detail || body?.title || undefined;
+  }
+
+  /**
+   * Read ASP.NET ValidationProblemDetails `errors` ({ field: [messages] })
+   */
+  private getValidationErrors(
+    error: HttpErrorResponse
+  ): { [field: string]: string[] } | undefined {
+    const errors = error.error?.errors;
+    if (!errors || typeof errors !== 'object') {
+      return undefined;
+    }
+    return Object.keys(errors).length > 0 ? errors : undefined;
+  }
+}
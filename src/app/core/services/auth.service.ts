@@ -1,14 +1,27 @@
-import { Injectable } from '@angular/core';
+import { Inject, Injectable } from '@angular/core';
 import { HttpClient } from '@angular/common/http';
-import { Observable } from 'rxjs';
-import { tap } from 'rxjs/operators';
+import { EMPTY, Observable, of, throwError } from 'rxjs';
 import {
+  catchError,
+  exhaustMap,
+  filter,
+  map,
+  switchMap,
+  tap,
+} from 'rxjs/operators';
+import {
+  CartMergeResult,
   LoginRequest,
   LoginResponse,
+  RefreshTokenRequest,
   RegisterRequest,
   RegisterResponse,
 } from '../../shared/models';
 import { AuthStore } from '../../store';
+import { API_CONFIG, ApiConfig, buildApiUrl } from '../config/api-config';
+import { CartService } from './cart.service';
+import { NotificationService } from './notification.service';
+import { WishlistService } from './wishlist.service';
 
 /**
  * Authentication service
@@ -18,32 +31,157 @@ import { AuthStore } from '../../store';
   providedIn: 'root',
 })
 export class AuthService {
-  private apiUrl = 'http://localhost:5296/api/auth';
+  private get apiUrl(): string {
+    return buildApiUrl(this.apiConfig, 'auth');
+  }
 
-  constructor(private http: HttpClient, private authStore: AuthStore) {}
+  constructor(
+    private http: HttpClient,
+    private authStore: AuthStore,
+    private cartService: CartService,
+    private wishlistService: WishlistService,
+    private notificationService: NotificationService,
+    @Inject(API_CONFIG) private apiConfig: ApiConfig
+  ) {
+    // Renew an expired token silently; log out only if that fails
+    this.authStore.refreshDue$
+      .pipe(
+        filter((isDue) => isDue),
+        exhaustMap(() =>
+          this.refreshToken().pipe(
+            catchError((error) => {
+              console.error('Error refreshing expired session:', error);
+              this.authStore.expireSession();
+              return EMPTY;
+            })
+          )
+        )
+      )
+      .subscribe();
+  }
 
   /**
    * Login user with email and password
+   * Completes after the guest cart and wishlist have been merged into the
+   * user's account
    */
   login(email: string, password: string): Observable<LoginResponse> {
     const request: LoginRequest = { email, password };
 
     return this.http.post<LoginResponse>(`${this.apiUrl}/login`, request).pipe(
-      tap((response) => {
-        // Decode JWT token to extract roles
-        const roles = this.decodeTokenRoles(response.token);
-
-        // Update auth store on successful login with roles
-        this.authStore.setAuth(
-          response.token,
-          response.userId,
-          response.email,
-          roles
+      tap((response) => this.applyLoginResponse(response)),
+      switchMap((response) => this.mergeGuestCart().pipe(map(() => response))),
+      switchMap((response) =>
+        this.mergeGuestWishlist().pipe(map(() => response))
+      )
+    );
+  }
+
+  /**
+   * Exchange the refresh token for a new access token
+   * Keeps the current refresh token if the backend does not rotate it
+   */
+  refreshToken(): Observable<LoginResponse> {
+    const { token, refreshToken } = this.authStore.getAuthValue();
+    if (!token || !refreshToken) {
+      return throwError(() => new Error('No refresh token available'));
+    }
+
+    const request: RefreshTokenRequest = { token, refreshToken };
+
+    return this.http
+      .post<LoginResponse>(`${this.apiUrl}/refresh`, request)
+      .pipe(
+        tap((response) =>
+          this.applyLoginResponse({
+            ...response,
+            refreshToken: response.refreshToken ?? refreshToken,
+          })
+        )
+      );
+  }
+
+  /**
+   * Check if the session can be extended without re-entering credentials
+   */
+  canRefresh(): boolean {
+    return !!this.authStore.getRefreshToken();
+  }
+
+  /**
+   * Merge the guest cart and report conflicts; never fails the login
+   */
+  private mergeGuestCart(): Observable<CartMergeResult | null> {
+    return this.cartService.mergeGuestCart().pipe(
+      tap((result) => {
+        result.conflicts.forEach((conflict) =>
+          conflict.reason === 'failed'
+            ? this.notificationService.warning(conflict.message)
+            : this.notificationService.info(conflict.message)
+        );
+        if (result.mergedCount > 0) {
+          this.notificationService.success(
+            `${result.mergedCount} item(s) from your guest cart were added to your cart.`
+          );
+        }
+      }),
+      catchError((error) => {
+        console.error('Error merging guest cart:', error);
+        this.notificationService.warning(
+          'Your guest cart could not be merged into your account.'
+        );
+        return of(null);
+      })
+    );
+  }
+
+  /**
+   * Merge the guest wishlist; never fails the login
+   */
+  private mergeGuestWishlist(): Observable<number> {
+    return this.wishlistService.mergeGuestWishlist().pipe(
+      catchError((error) => {
+        console.error('Error merging guest wishlist:', error);
+        this.notificationService.warning(
+          'Your saved products could not be added to your account.'
         );
+        return of(0);
       })
     );
   }
 
+  /**
+   * Update auth store from a login/refresh response
+   */
+  private applyLoginResponse(response: LoginResponse): void {
+    // Decode JWT token to extract roles
+    const roles = this.decodeTokenRoles(response.token);
+
+    this.authStore.setAuth(
+      response.token,
+      response.userId,
+      response.email,
+      roles,
+      response.expiresAt || this.decodeTokenExpiry(response.token),
+      response.refreshToken ?? null
+    );
+  }
+
+  /**
+   * Read the `exp` claim of a JWT token as an ISO date string
+   */
+  private decodeTokenExpiry(token: string): string | null {
+    try {
+      const decodedPayload = JSON.parse(atob(token.split('.')[1]));
+      return decodedPayload['exp']
+        ? new Date(decodedPayload['exp'] * 1000).toISOString()
+        : null;
+    } catch (error) {
+      console.error('Error decoding token expiry:', error);
+      return null;
+    }
+  }
+
   /**
    * Decode JWT token and extract roles
    * JWT token format: header.payload.signature
@@ -135,4 +273,29 @@ export class AuthService {
   hasRole(role: string): boolean {
     return this.authStore.hasRole(role);
   }
+
+  /**
+   * Default landing page for the current user
+   * Admins go to the admin panel, everyone else to products
+   */
+  getDefaultRoute(): string {
+    return this.hasRole('Admin') ? '/admin' : '/products';
+  }
+
+  /**
+   * Resolve where to go after sign-in
+   * Only app-relative return URLs are honored to avoid open redirects
+   */
+  resolveReturnUrl(returnUrl: string | null | undefined): string {
+    if (
+      returnUrl &&
+      returnUrl.startsWith('/') &&
+      !returnUrl.startsWith('//') &&
+      !returnUrl.startsWith('/login') &&
+      !returnUrl.startsWith('/register')
+    ) {
+      return returnUrl;
+    }
+    return this.getDefaultRoute();
+  }
 }
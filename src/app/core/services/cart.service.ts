@@ -1,31 +1,118 @@
-import { Injectable } from '@angular/core';
+import { Inject, Injectable } from '@angular/core';
 import { HttpClient } from '@angular/common/http';
-import { Observable, BehaviorSubject, tap } from 'rxjs';
 import {
+  EMPTY,
+  MonoTypeOperatorFunction,
+  Observable,
+  Subject,
+  catchError,
+  concatMap,
+  debounceTime,
+  defer,
+  finalize,
+  from,
+  groupBy,
+  map,
+  mergeMap,
+  of,
+  share,
+  switchMap,
+  tap,
+  toArray,
+} from 'rxjs';
+import {
+  ApiError,
   Cart,
+  CartItem,
+  CartMergeConflict,
+  CartMergeResult,
   AddCartItemRequest,
   UpdateCartItemRequest,
 } from 'src/app/shared/models';
+import { AuthStore, CartStore, GuestCartStore } from 'src/app/store';
+import { API_CONFIG, ApiConfig, buildApiUrl } from '../config/api-config';
+import { NotificationService } from './notification.service';
+
+/**
+ * Quiet period before a burst of quantity changes is sent to the server
+ */
+export const QUANTITY_UPDATE_DEBOUNCE_MS = 400;
+
+interface QuantityChange {
+  item: CartItem;
+  quantity: number;
+}
 
+/**
+ * Cart service
+ * Talks to the cart API and keeps CartStore in sync with every response
+ */
 @Injectable({
   providedIn: 'root',
 })
 export class CartService {
-  private apiUrl = 'http://localhost:5296/api/cart';
+  private get apiUrl(): string {
+    return buildApiUrl(this.apiConfig, 'cart');
+  }
 
-  // Cart state management
-  private cartSubject = new BehaviorSubject<Cart | null>(null);
-  public cart$ = this.cartSubject.asObservable();
+  // In-flight GET shared by concurrent callers
+  private cartRequest$: Observable<Cart> | null = null;
 
-  constructor(private http: HttpClient) {}
+  // Optimistic quantity updates, keyed by cart item id
+  private quantityChanges$ = new Subject<QuantityChange>();
+  private latestQuantities = new Map<string, number>();
+  private confirmedQuantities = new Map<string, number>();
+
+  constructor(
+    private http: HttpClient,
+    private authStore: AuthStore,
+    private cartStore: CartStore,
+    private guestCartStore: GuestCartStore,
+    private notificationService: NotificationService,
+    @Inject(API_CONFIG) private apiConfig: ApiConfig
+  ) {
+    // Debounce per item, keep requests for the same item in order
+    this.quantityChanges$
+      .pipe(
+        groupBy((change) => change.item.id),
+        mergeMap((changes$) =>
+          changes$.pipe(
+            debounceTime(QUANTITY_UPDATE_DEBOUNCE_MS),
+            concatMap((change) => this.sendQuantity(change))
+          )
+        )
+      )
+      .subscribe();
+  }
 
   /**
    * Get current user's cart
+   * Concurrent calls share a single request
    */
   getCart(): Observable<Cart> {
-    return this.http
-      .get<Cart>(this.apiUrl)
-      .pipe(tap((cart) => this.cartSubject.next(cart)));
+    if (!this.cartRequest$) {
+      this.cartRequest$ = defer(() => {
+        this.cartStore.setLoading(true);
+        return this.http.get<Cart>(this.apiUrl);
+      }).pipe(
+        this.updateStore(),
+        finalize(() => (this.cartRequest$ = null)),
+        share()
+      );
+    }
+    return this.cartRequest$;
+  }
+
+  /**
+   * Units of a product in the visible cart (the guest cart when signed out)
+   */
+  getQuantityInCart(productId: string): number {
+    const cart = this.authStore.isAuthenticated()
+      ? this.cartStore.getCartValue()
+      : this.guestCartStore.getCartValue();
+    return (
+      cart?.items.find((item) => item.productId === productId)?.quantity ?? 0
+    );
   }
 
   /**
@@ -34,7 +121,7 @@ export class CartService {
   addToCart(request: AddCartItemRequest): Observable<Cart> {
     return this.http
       .post<Cart>(`${this.apiUrl}/items`, request)
-      .pipe(tap((cart) => this.cartSubject.next(cart)));
+      .pipe(this.updateStore());
   }
 
   /**
@@ -46,18 +133,34 @@ export class CartService {
   ): Observable<Cart> {
     return this.http
       .put<Cart>(`${this.apiUrl}/items/${cartItemId}`, request)
-      .pipe(tap((cart) => this.cartSubject.next(cart)));
+      .pipe(this.updateStore());
+  }
+
+  /**
+   * Change an item quantity optimistically
+   * The cart state updates right away; rapid changes are sent as one request
+   * and rolled back with a toast if the server rejects them
+   */
+  changeQuantity(item: CartItem, quantity: number): void {
+    if (!this.confirmedQuantities.has(item.id)) {
+      this.confirmedQuantities.set(item.id, item.quantity);
+    }
+    this.latestQuantities.set(item.id, quantity);
+    this.cartStore.updateItemQuantity(item.id, quantity);
+    this.quantityChanges$.next({ item, quantity });
   }
 
   /**
-   * Remove item from cart
+   * Remove item from cart and reload the updated cart
+   * A quantity change still waiting for this line is dropped
    */
-  removeCartItem(cartItemId: string): Observable<void> {
+  removeCartItem(cartItemId: string): Observable<Cart> {
+    this.latestQuantities.delete(cartItemId);
+    this.confirmedQuantities.delete(cartItemId);
+
     return this.http.delete<void>(`${this.apiUrl}/items/${cartItemId}`).pipe(
-      tap(() => {
-        // Reload cart after item removal
-        this.getCart().subscribe();
-      })
+      tap({ error: (error: ApiError) => this.cartStore.setError(error) }),
+      switchMap(() => this.getCart())
     );
   }
 
@@ -67,21 +170,148 @@ export class CartService {
   clearCart(): Observable<void> {
     return this.http
       .delete<void>(`${this.apiUrl}/clear`)
-      .pipe(tap(() => this.cartSubject.next(null)));
+      .pipe(tap(() => this.cartStore.clearCart()));
   }
 
   /**
-   * Get current cart value
+   * Move the guest cart items into the current user's server cart
+   * Items are added one by one so a single failure doesn't drop the rest;
+   * merged items leave the guest cart, failed ones stay for the next login,
+   * and conflicts are returned
    */
-  getCartValue(): Cart | null {
-    return this.cartSubject.value;
+  mergeGuestCart(): Observable<CartMergeResult> {
+    const guestItems = this.guestCartStore.getCartValue().items;
+    if (guestItems.length === 0) {
+      return of({ mergedCount: 0, conflicts: [] });
+    }
+
+    return this.getCart().pipe(
+      catchError(() => of(null)),
+      switchMap((serverCart) =>
+        from(guestItems).pipe(
+          concatMap((item) =>
+            this.addToCart({
+              productId: item.productId,
+              quantity: item.quantity,
+            }).pipe(
+              tap(() => this.guestCartStore.removeItem(item.productId)),
+              map((cart) => this.findMergeConflict(item, serverCart, cart)),
+              catchError((error: ApiError) =>
+                of<CartMergeConflict>({
+                  productName: item.productName,
+                  reason: 'failed',
+                  message: `${item.productName} could not be added (${error.message}). It stays in your cart on this device.`,
+                })
+              )
+            )
+          ),
+          toArray()
+        )
+      ),
+      map((results) => {
+        const conflicts = results.filter(
+          (result): result is CartMergeConflict => result !== null
+        );
+        return {
+          mergedCount:
+            guestItems.length -
+            conflicts.filter((c) => c.reason === 'failed').length,
+          conflicts,
+        };
+      })
+    );
+  }
+
+  /**
+   * Send the last debounced quantity of an item
+   * A response or failure is only applied when no newer change is pending for
+   * the item; otherwise the newer change settles the state. Changes of a line
+   * removed in the meantime are dropped.
+   */
+  private sendQuantity({ item, quantity }: QuantityChange): Observable<Cart> {
+    if (!this.latestQuantities.has(item.id)) {
+      return EMPTY;
+    }
+
+    const request: UpdateCartItemRequest = { quantity };
+
+    return this.http.put<Cart>(`${this.apiUrl}/items/${item.id}`, request).pipe(
+      tap((cart) => {
+        const latest = this.latestQuantities.get(item.id);
+        if (latest === quantity) {
+          this.latestQuantities.delete(item.id);
+          this.confirmedQuantities.delete(item.id);
+          this.cartStore.updateCart(cart);
+        } else if (latest !== undefined) {
+          this.confirmedQuantities.set(item.id, quantity);
+        }
+      }),
+      catchError((error: ApiError) => {
+        if (this.latestQuantities.get(item.id) !== quantity) {
+          return EMPTY;
+        }
+
+        const confirmed = this.confirmedQuantities.get(item.id);
+        this.latestQuantities.delete(item.id);
+        this.confirmedQuantities.delete(item.id);
+        if (confirmed !== undefined) {
+          this.cartStore.updateItemQuantity(item.id, confirmed);
+        }
+        this.notificationService.error(
+          `Could not update ${item.productName}. ${error.message}`
+        );
+        return EMPTY;
+      })
+    );
   }
 
   /**
-   * Get cart item count
+   * Store a cart response, or the error when the request fails
    */
-  getCartItemCount(): number {
-    const cart = this.cartSubject.value;
-    return cart ? cart.items.reduce((sum, item) => sum + item.quantity, 0) : 0;
+  private updateStore(): MonoTypeOperatorFunction<Cart> {
+    return tap<Cart>({
+      next: (cart) => this.cartStore.updateCart(cart),
+      error: (error: ApiError) => this.cartStore.setError(error),
+    });
+  }
+
+  /**
+   * Compare a merged guest item with the server cart before and after adding
+   */
+  private findMergeConflict(
+    guestItem: CartItem,
+    cartBefore: Cart | null,
+    cartAfter: Cart
+  ): CartMergeConflict | null {
+    const existing = cartBefore?.items.find(
+      (item) => item.productId === guestItem.productId
+    );
+    const merged = cartAfter.items.find(
+      (item) => item.productId === guestItem.productId
+    );
+
+    const name = guestItem.productName;
+
+    if (existing) {
+      const quantity =
+        merged?.quantity ?? existing.quantity + guestItem.quantity;
+      return {
+        productName: name,
+        reason: 'already-in-cart',
+        message: `${name} was already in your cart, quantity is now ${quantity}.`,
+      };
+    }
+
+    if (merged && merged.unitPrice !== guestItem.unitPrice) {
+      const oldPrice = guestItem.unitPrice.toFixed(2);
+      const newPrice = merged.unitPrice.toFixed(2);
+      return {
+        productName: name,
+        reason: 'price-changed',
+        message: `The price of ${name} changed from ${oldPrice} to ${newPrice}.`,
+      };
+    }
+
+    return null;
   }
 }
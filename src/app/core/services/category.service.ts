@@ -1,7 +1,8 @@
-import { Injectable } from '@angular/core';
+import { Inject, Injectable } from '@angular/core';
 import { HttpClient } from '@angular/common/http';
 import { Observable } from 'rxjs';
 import { Category } from '../../shared/models';
+import { API_CONFIG, ApiConfig, buildApiUrl } from '../config/api-config';
 
 /**
  * Category service
@@ -11,9 +12,14 @@ import { Category } from '../../shared/models';
   providedIn: 'root',
 })
 export class CategoryService {
-  private apiUrl = 'http://localhost:5296/api/category';
+  private get apiUrl(): string {
+    return buildApiUrl(this.apiConfig, 'category');
+  }
 
-  constructor(private http: HttpClient) {}
+  constructor(
+    private http: HttpClient,
+    @Inject(API_CONFIG) private apiConfig: ApiConfig
+  ) {}
 
   /**
    * Get all categories
@@ -0,0 +1,45 @@
+import { TestBed } from '@angular/core/testing';
+import { HttpClientTestingModule } from '@angular/common/http/testing';
+
+import { CouponService } from './coupon.service';
+import { Coupon } from '../../shared/models';
+
+describe('CouponService', () => {
+  let service: CouponService;
+
+  const coupon: Coupon = {
+    id: 'coupon-1',
+    code: 'SAVE10',
+    discountType: 'percentage',
+    discountValue: 10,
+    minimumSpend: 50,
+    expiresAt: '2030-01-01T00:00:00Z',
+    isActive: true,
+  };
+  const now = new Date('2029-06-01T00:00:00Z');
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({
+      imports: [HttpClientTestingModule],
+    });
+    service = TestBed.inject(CouponService);
+  });
+
+  it('should take a percentage off the subtotal, rounded to cents', () => {
+    expect(service.getDiscount(coupon, 99.99, now)).toBe(10);
+  });
+
+  it('should never discount more than the subtotal', () => {
+    const fixed: Coupon = { ...coupon, discountType: 'fixed', minimumSpend: 0 };
+    expect(service.getDiscount({ ...fixed, discountValue: 80 }, 60, now)).toBe(
+      60
+    );
+  });
+
+  it('should not discount below the minimum spend or after expiry', () => {
+    expect(service.getDiscount(coupon, 49.99, now)).toBe(0);
+    expect(
+      service.getDiscount(coupon, 100, new Date('2030-01-02T00:00:00Z'))
+    ).toBe(0);
+  });
+});
@@ -0,0 +1,114 @@
+import { Inject, Injectable } from '@angular/core';
+import { HttpClient, HttpParams } from '@angular/common/http';
+import { Observable, tap, throwError } from 'rxjs';
+import {
+  ApiError,
+  Coupon,
+  CouponQueryParams,
+  CreateCouponRequest,
+  PaginatedResult,
+  UpdateCouponRequest,
+  ValidateCouponRequest,
+} from '../../shared/models';
+import { CouponStore } from 'src/app/store';
+import { API_CONFIG, ApiConfig, buildApiUrl } from '../config/api-config';
+
+/**
+ * Coupon service
+ * Applies promo codes to the cart and handles coupon management (Admin)
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class CouponService {
+  private get apiUrl(): string {
+    return buildApiUrl(this.apiConfig, 'coupon');
+  }
+
+  constructor(
+    private http: HttpClient,
+    private couponStore: CouponStore,
+    @Inject(API_CONFIG) private apiConfig: ApiConfig
+  ) {}
+
+  /**
+   * Validate a promo code against the cart subtotal and apply it
+   * An empty code is rejected without calling the API
+   */
+  applyCoupon(code: string, subtotal: number): Observable<Coupon> {
+    const normalizedCode = code.trim().toUpperCase();
+    if (!normalizedCode) {
+      return throwError(
+        (): ApiError => ({ message: 'Please enter a promo code.' })
+      );
+    }
+
+    const request: ValidateCouponRequest = { code: normalizedCode, subtotal };
+    return this.http
+      .post<Coupon>(`${this.apiUrl}/validate`, request)
+      .pipe(tap((coupon) => this.couponStore.setCoupon(coupon)));
+  }
+
+  removeCoupon(): void {
+    this.couponStore.clear();
+  }
+
+  /**
+   * Discount the coupon gives on a subtotal, rounded to cents
+   * The API has the final say when the order is placed; this keeps the
+   * totals right while the cart changes after the code was applied
+   */
+  getDiscount(coupon: Coupon, subtotal: number, now = new Date()): number {
+    if (
+      !coupon.isActive ||
+      this.isExpired(coupon, now) ||
+      subtotal < (coupon.minimumSpend ?? 0)
+    ) {
+      return 0;
+    }
+
+    const discount =
+      coupon.discountType === 'percentage'
+        ? Math.round(subtotal * coupon.discountValue) / 100
+        : coupon.discountValue;
+    return Math.max(0, Math.min(discount, subtotal));
+  }
+
+  isExpired(coupon: Coupon, now = new Date()): boolean {
+    return !!coupon.expiresAt && new Date(coupon.expiresAt) < now;
+  }
+
+  /**
+   * Get all coupons, optionally only active or inactive ones (Admin only)
+   */
+  getCoupons(params?: CouponQueryParams): Observable<PaginatedResult<Coupon>> {
+    let httpParams = new HttpParams();
+
+    if (params) {
+      if (params.pageNumber)
+        httpParams = httpParams.set('pageNumber', params.pageNumber.toString());
+      if (params.pageSize)
+        httpParams = httpParams.set('pageSize', params.pageSize.toString());
+      if (params.searchTerm)
+        httpParams = httpParams.set('searchTerm', params.searchTerm);
+      if (params.isActive !== undefined)
+        httpParams = httpParams.set('isActive', params.isActive.toString());
+    }
+
+    return this.http.get<PaginatedResult<Coupon>>(this.apiUrl, {
+      params: httpParams,
+    });
+  }
+
+  createCoupon(request: CreateCouponRequest): Observable<Coupon> {
+    return this.http.post<Coupon>(this.apiUrl, request);
+  }
+
+  updateCoupon(id: string, request: UpdateCouponRequest): Observable<void> {
+    return this.http.put<void>(`${this.apiUrl}/${id}`, request);
+  }
+
+  deleteCoupon(id: string): Observable<void> {
+    return this.http.delete<void>(`${this.apiUrl}/${id}`);
+  }
+}
@@ -0,0 +1,191 @@
+import { Injectable } from '@angular/core';
+import { Observable, catchError, forkJoin, from, map, of } from 'rxjs';
+import {
+  ImageProcessingOptions,
+  ImageProcessingResult,
+  ProcessedImage,
+} from '../../shared/models';
+
+export const DEFAULT_IMAGE_PROCESSING: ImageProcessingOptions = {
+  maxDimension: 1600,
+  quality: 0.85,
+  outputType: 'image/webp',
+  squareCrop: false,
+};
+
+// Re-encoding would drop the animation of GIFs
+const PASSTHROUGH_TYPES = ['image/gif'];
+
+/**
+ * Image processing service
+ * Resizes, crops and re-encodes images on a canvas before upload.
+ * Drawing the decoded image also applies the EXIF orientation and
+ * drops the EXIF metadata from the uploaded file.
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class ImageProcessingService {
+  /**
+   * Process a single image
+   */
+  process(
+    file: File,
+    options: Partial<ImageProcessingOptions> = {}
+  ): Observable<ProcessedImage> {
+    return from(
+      this.processFile(file, { ...DEFAULT_IMAGE_PROCESSING, ...options })
+    );
+  }
+
+  /**
+   * Process several images; results keep the order of the input files
+   * A file that can't be processed gets an error instead of failing the rest.
+   */
+  processAll(
+    files: File[],
+    options: Partial<ImageProcessingOptions> = {}
+  ): Observable<ImageProcessingResult[]> {
+    if (files.length === 0) {
+      return of([]);
+    }
+    return forkJoin(
+      files.map((file) =>
+        this.process(file, options).pipe(
+          map((image): ImageProcessingResult => ({ source: file, image })),
+          catchError((error: Error) =>
+            of<ImageProcessingResult>({
+              source: file,
+              error: error.message || 'Unsupported image',
+            })
+          )
+        )
+      )
+    );
+  }
+
+  /**
+   * Release the object URL of a preview that is no longer displayed
+   */
+  revokePreview(image: ProcessedImage): void {
+    URL.revokeObjectURL(image.previewUrl);
+  }
+
+  private async processFile(
+    file: File,
+    options: ImageProcessingOptions
+  ): Promise<ProcessedImage> {
+    if (PASSTHROUGH_TYPES.includes(file.type) && !options.squareCrop) {
+      return this.passthrough(file);
+    }
+
+    const source = await this.decode(file);
+    try {
+      const sourceWidth = source.width;
+      const sourceHeight = source.height;
+
+      // Center crop to a square when requested
+      const cropSize = Math.min(sourceWidth, sourceHeight);
+      const sw = options.squareCrop ? cropSize : sourceWidth;
+      const sh = options.squareCrop ? cropSize : sourceHeight;
+      const sx = (sourceWidth - sw) / 2;
+      const sy = (sourceHeight - sh) / 2;
+
+      const scale = Math.min(1, options.maxDimension / Math.max(sw, sh));
+      const width = Math.round(sw * scale);
+      const height = Math.round(sh * scale);
+
+      const canvas = document.createElement('canvas');
+      canvas.width = width;
+      canvas.height = height;
+      const context = canvas.getContext('2d');
+      if (!context) {
+        throw new Error('Canvas is not supported in this browser');
+      }
+      context.imageSmoothingQuality = 'high';
+      context.drawImage(source, sx, sy, sw, sh, 0, 0, width, height);
+
+      let blob = await this.toBlob(canvas, options.outputType, options.quality);
+      // Browsers without WebP encoding fall back to PNG - use JPEG instead
+      if (blob.type !== options.outputType) {
+        blob = await this.toBlob(canvas, 'image/jpeg', options.quality);
+      }
+
+      const processed = new File([blob], this.renameFile(file, blob.type), {
+        type: blob.type,
+        lastModified: Date.now(),
+      });
+
+      return {
+        file: processed,
+        previewUrl: URL.createObjectURL(processed),
+        width,
+        height,
+        originalSize: file.size,
+      };
+    } finally {
+      if ('close' in source) {
+        source.close();
+      }
+    }
+  }
+
+  private passthrough(file: File): ProcessedImage {
+    return {
+      file,
+      previewUrl: URL.createObjectURL(file),
+      width: 0,
+      height: 0,
+      originalSize: file.size,
+    };
+  }
+
+  /**
+   * Decode with EXIF orientation applied
+   * Falls back to an <img> element, which browsers also orient from EXIF
+   */
+  private async decode(file: File): Promise<ImageBitmap | HTMLImageElement> {
+    if (typeof createImageBitmap === 'function') {
+      try {
+        return await createImageBitmap(file, {
+          imageOrientation: 'from-image',
+        });
+      } catch {
+        // Fall through to the <img> decoder
+      }
+    }
+
+    const url = URL.createObjectURL(file);
+    try {
+      const image = new Image();
+      image.src = url;
+      await image.decode();
+      return image;
+    } catch {
+      throw new Error(`${file.name} could not be read as an image`);
+    } finally {
+      URL.revokeObjectURL(url);
+    }
+  }
+
+  private toBlob(
+    canvas: HTMLCanvasElement,
+    type: string,
+    quality: number
+  ): Promise<Blob> {
+    return new Promise((resolve, reject) =>
+      canvas.toBlob(
+        (blob) =>
+          blob ? resolve(blob) : reject(new Error('Image encoding failed')),
+        type,
+        quality
+      )
+    );
+  }
+
+  private renameFile(file: File, type: string): string {
+    const extension = type === 'image/webp' ? 'webp' : 'jpg';
+    const baseName = file.name.replace(/\.[^.]+$/, '') || 'image';
+    return `${baseName}.${extension}`;
+  }
+}
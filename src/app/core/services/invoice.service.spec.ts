@@ -0,0 +1,80 @@
+import { TestBed } from '@angular/core/testing';
+
+import { InvoiceService } from './invoice.service';
+import { OrderDetail, OrderStatus, PaymentMethod } from '../../shared/models';
+
+describe('InvoiceService', () => {
+  let service: InvoiceService;
+
+  const order: OrderDetail = {
+    id: '1a2b3c4d-5e6f-7a8b-9c0d-1e2f3a4b5c6d',
+    userId: 'user-1',
+    orderDate: '2024-01-31T10:00:00Z',
+    totalAmount: 25,
+    status: OrderStatus.Completed,
+    paymentMethod: PaymentMethod.PayPal,
+    shippingAddress: '1 Test Street',
+    orderItems: [
+      {
+        id: 'item-1',
+        productId: 'product-1',
+        productName: 'Product 1',
+        quantity: 2,
+        unitPrice: 12.5,
+        subtotal: 25,
+      },
+    ],
+  };
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({});
+    service = TestBed.inject(InvoiceService);
+  });
+
+  it('should build the invoice from the order', () => {
+    const invoice = service.createInvoice(order);
+
+    expect(invoice.invoiceNumber).toBe('INV-20240131-1A2B3C4D');
+    expect(invoice.lines.length).toBe(1);
+    expect(invoice.subtotal).toBe(25);
+    expect(invoice.total).toBe(25);
+  });
+
+  it('should not mistake a coupon discount for free shipping', () => {
+    const invoice = service.createInvoice({
+      ...order,
+      totalAmount: 20,
+      discountAmount: 5,
+      couponCode: 'SAVE5',
+    });
+
+    expect(invoice.discount).toBe(5);
+    expect(invoice.discountLabel).toBe('Discount (SAVE5)');
+    expect(invoice.shipping).toBe(0);
+  });
+
+  it('should extract the tax only when the rate is known', () => {
+    expect(service.createInvoice(order).tax).toBeNull();
+
+    const invoice = service.createInvoice({ ...order, taxRate: 0.25 });
+    expect(invoice.tax).toBe(5);
+    expect(invoice.taxLabel).toBe('VAT (25%, included)');
+  });
+
+  it('should leave invoices in non-Latin scripts to the print view', () => {
+    expect(service.canCreatePdf(service.createInvoice(order))).toBeTrue();
+    expect(
+      service.canCreatePdf(
+        service.createInvoice({ ...order, shippingAddress: '東京都千代田区' })
+      )
+    ).toBeFalse();
+  });
+
+  it('should render a PDF document', async () => {
+    const pdf = service.createPdf(service.createInvoice(order));
+    const text = await pdf.text();
+
+    expect(pdf.type).toBe('application/pdf');
+    expect(text.startsWith('%PDF-1.4')).toBeTrue();
+  });
+});
@@ -0,0 +1,465 @@
+import { Injectable } from '@angular/core';
+import {
+  Invoice,
+  OrderDetail,
+  OrderStatus,
+  PaymentMethod,
+} from '../../shared/models';
+import { INVOICE_CONFIG } from '../config/invoice-config';
+
+// A4 in PDF points
+const PAGE_WIDTH = 595;
+const PAGE_HEIGHT = 842;
+const MARGIN = 50;
+const ROW_HEIGHT = 18;
+
+// Characters the built-in Helvetica fonts (WinAnsi encoding) can't show
+const NON_PDF_TEXT = /[^\t\n\r\x20-\x7e\xa0-\xff]/;
+
+/**
+ * Invoice service
+ * Builds invoices from orders and renders them as PDF in the browser.
+ * The PDF is written by hand (text, lines and fills with the built-in
+ * Helvetica fonts), so no PDF library is needed.
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class InvoiceService {
+  private currencyFormat = new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: 'USD',
+  });
+
+  /**
+   * Build the invoice of an order
+   */
+  createInvoice(order: OrderDetail): Invoice {
+    const lines = (order.orderItems ?? []).map((item) => ({
+      description: item.productName,
+      quantity: item.quantity,
+      unitPrice: item.unitPrice,
+      amount: item.subtotal,
+    }));
+    const { taxLabel } = INVOICE_CONFIG;
+    const taxRate = order.taxRate ?? INVOICE_CONFIG.taxRate;
+    const subtotal = lines.reduce((sum, line) => sum + line.amount, 0);
+    const discount = order.discountAmount ?? 0;
+    const tax =
+      taxRate === null
+        ? null
+        : this.round(order.totalAmount - order.totalAmount / (1 + taxRate));
+
+    return {
+      invoiceNumber: this.getInvoiceNumber(order),
+      orderId: order.id,
+      orderDate: order.orderDate,
+      issueDate: new Date().toISOString(),
+      orderStatus: order.status,
+      sellerName: INVOICE_CONFIG.sellerName,
+      sellerAddress: INVOICE_CONFIG.sellerAddress,
+      billingAddress: order.shippingAddress,
+      paymentMethod: this.getPaymentMethodText(order.paymentMethod),
+      lines,
+      subtotal,
+      discountLabel: order.couponCode
+        ? `Discount (${order.couponCode})`
+        : 'Discount',
+      discount,
+      shipping: Math.max(
+        0,
+        this.round(order.totalAmount + discount - subtotal)
+      ),
+      taxLabel:
+        taxRate === null
+          ? taxLabel
+          : `${taxLabel} (${this.round(taxRate * 100)}%, included)`,
+      tax,
+      total: order.totalAmount,
+    };
+  }
+
+  /**
+   * Invoice number derived from the order, e.g. INV-20240131-1A2B3C4D
+   * Stable across downloads, so reprints carry the same number
+   */
+  getInvoiceNumber(order: OrderDetail): string {
+    const date = new Date(order.orderDate);
+    const day = isNaN(date.getTime())
+      ? '00000000'
+      : date.toISOString().slice(0, 10).replace(/-/g, '');
+    const suffix = order.id.replace(/-/g, '').slice(0, 8).toUpperCase();
+    return `INV-${day}-${suffix}`;
+  }
+
+  /**
+   * Whether the PDF can show every text of the invoice
+   * The built-in fonts cover Latin-1 only; other invoices (e.g. names in
+   * non-Latin scripts) have to be saved from the print view instead
+   */
+  canCreatePdf(invoice: Invoice): boolean {
+    const texts = [
+      invoice.sellerName,
+      ...invoice.sellerAddress,
+      invoice.billingAddress,
+      invoice.paymentMethod,
+      invoice.discountLabel,
+      invoice.taxLabel,
+      ...invoice.lines.map((line) => line.description),
+    ];
+    return texts.every((text) => !NON_PDF_TEXT.test(text));
+  }
+
+  /**
+   * Generate the PDF and start the download
+   */
+  downloadPdf(invoice: Invoice): void {
+    const url = URL.createObjectURL(this.createPdf(invoice));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${invoice.invoiceNumber}.pdf`;
+    link.click();
+    URL.revokeObjectURL(url);
+  }
+
+  /**
+   * Render the invoice as a PDF document
+   */
+  createPdf(invoice: Invoice): Blob {
+    const pdf = new PdfWriter();
+    const right = PAGE_WIDTH - MARGIN;
+    let y = PAGE_HEIGHT - MARGIN;
+
+    // Header: seller on the left, invoice details on the right
+    pdf.text(MARGIN, y - 14, invoice.sellerName, { size: 20, bold: true });
+    pdf.text(right, y - 14, 'INVOICE', {
+      size: 20,
+      bold: true,
+      align: 'right',
+    });
+    y -= 34;
+    invoice.sellerAddress.forEach((line, i) =>
+      pdf.text(MARGIN, y - i * 12, line, { size: 9 })
+    );
+
+    const details: [string, string][] = [
+      ['Invoice No.', invoice.invoiceNumber],
+      ['Order ID', invoice.orderId.slice(0, 8).toUpperCase()],
+      ['Order date', this.formatDate(invoice.orderDate)],
+      ['Issue date', this.formatDate(invoice.issueDate)],
+      ['Payment', invoice.paymentMethod],
+    ];
+    if (invoice.orderStatus === OrderStatus.Cancelled) {
+      details.push(['Status', 'CANCELLED']);
+    }
+    details.forEach(([label, value], i) => {
+      pdf.text(right - 150, y - i * 12, label, { size: 9 });
+      pdf.text(right, y - i * 12, value, {
+        size: 9,
+        bold: true,
+        align: 'right',
+      });
+    });
+    y -= Math.max(invoice.sellerAddress.length, details.length) * 12 + 20;
+
+    // Bill to
+    pdf.text(MARGIN, y, 'BILL TO', { size: 9, bold: true });
+    y -= 14;
+    invoice.billingAddress
+      .split(/\r?\n/)
+      .filter((line) => line.trim())
+      .forEach((line) => {
+        pdf.text(MARGIN, y, line.trim(), { size: 10, maxWidth: 300 });
+        y -= 13;
+      });
+    y -= 15;
+
+    // Line items, repeating the table header on every page
+    const drawTableHeader = () => {
+      pdf.fillRect(MARGIN, y - 5, right - MARGIN, ROW_HEIGHT, 0.93);
+      pdf.text(MARGIN + 5, y, 'Description', { size: 9, bold: true });
+      pdf.text(360, y, 'Qty', { size: 9, bold: true, align: 'right' });
+      pdf.text(450, y, 'Unit price', { size: 9, bold: true, align: 'right' });
+      pdf.text(right - 5, y, 'Amount', { size: 9, bold: true, align: 'right' });
+      y -= ROW_HEIGHT + 2;
+    };
+    drawTableHeader();
+
+    invoice.lines.forEach((line) => {
+      if (y < MARGIN + 40) {
+        pdf.addPage();
+        y = PAGE_HEIGHT - MARGIN;
+        drawTableHeader();
+      }
+      pdf.text(MARGIN + 5, y, line.description, { size: 10, maxWidth: 270 });
+      pdf.text(360, y, line.quantity.toString(), { size: 10, align: 'right' });
+      pdf.text(450, y, this.formatCurrency(line.unitPrice), {
+        size: 10,
+        align: 'right',
+      });
+      pdf.text(right - 5, y, this.formatCurrency(line.amount), {
+        size: 10,
+        align: 'right',
+      });
+      pdf.line(MARGIN, y - 6, right, y - 6, 0.93);
+      y -= ROW_HEIGHT;
+    });
+
+    // Totals
+    if (y < MARGIN + 100) {
+      pdf.addPage();
+      y = PAGE_HEIGHT - MARGIN;
+    }
+    y -= 10;
+    const totals: [string, string][] = [
+      ['Subtotal', this.formatCurrency(invoice.subtotal)],
+    ];
+    if (invoice.discount) {
+      totals.push([
+        invoice.discountLabel,
+        `-${this.formatCurrency(invoice.discount)}`,
+      ]);
+    }
+    totals.push([
+      'Shipping',
+      invoice.shipping ? this.formatCurrency(invoice.shipping) : 'Free',
+    ]);
+    if (invoice.tax !== null) {
+      totals.push([invoice.taxLabel, this.formatCurrency(invoice.tax)]);
+    }
+    totals.forEach(([label, value]) => {
+      pdf.text(right - 200, y, label, { size: 10 });
+      pdf.text(right - 5, y, value, { size: 10, align: 'right' });
+      y -= 15;
+    });
+    pdf.line(right - 200, y + 8, right, y + 8);
+    y -= 6;
+    pdf.text(right - 200, y, 'Total', { size: 12, bold: true });
+    pdf.text(right - 5, y, this.formatCurrency(invoice.total), {
+      size: 12,
+      bold: true,
+      align: 'right',
+    });
+
+    // Footer on every page
+    const pageCount = pdf.pageCount;
+    for (let i = 0; i < pageCount; i++) {
+      pdf.setPage(i);
+      pdf.text(MARGIN, MARGIN - 20, 'Thank you for your purchase!', {
+        size: 8,
+      });
+      pdf.text(right, MARGIN - 20, `Page ${i + 1} of ${pageCount}`, {
+        size: 8,
+        align: 'right',
+      });
+    }
+
+    return pdf.toBlob();
+  }
+
+  private formatCurrency(value: number): string {
+    return this.currencyFormat.format(value);
+  }
+
+  private formatDate(value: string): string {
+    return new Date(value).toLocaleDateString('en-US', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+    });
+  }
+
+  private round(value: number): number {
+    return Math.round(value * 100) / 100;
+  }
+
+  private getPaymentMethodText(method: PaymentMethod): string {
+    switch (method) {
+      case PaymentMethod.CashOnDelivery:
+        return 'Cash on Delivery';
+      case PaymentMethod.PayPal:
+        return 'PayPal';
+      case PaymentMethod.BankTransfer:
+        return 'Bank Transfer';
+      case PaymentMethod.CreditCard:
+        return 'Credit Card';
+      default:
+        return 'Unknown';
+    }
+  }
+}
+
+interface PdfTextOptions {
+  size?: number;
+  bold?: boolean;
+  align?: 'left' | 'right';
+  maxWidth?: number;
+}
+
+// Helvetica glyph widths (1/1000 em) for the characters used in amounts
+const HELVETICA_WIDTHS: { [char: string]: number } = {
+  ' ': 278,
+  ',': 278,
+  '.': 278,
+  '-': 333,
+  '(': 333,
+  ')': 333,
+  '%': 889,
+};
+const HELVETICA_DIGIT_WIDTH = 556;
+const HELVETICA_AVERAGE_WIDTH = 556;
+const HELVETICA_BOLD_AVERAGE_WIDTH = 611;
+
+/**
+ * Minimal PDF 1.4 writer using the standard Helvetica fonts
+ * Text is Latin-1 only; other characters are replaced with "?", so check
+ * InvoiceService.canCreatePdf first.
+ */
+class PdfWriter {
+  private pages: string[][] = [[]];
+  private current = 0;
+
+  get pageCount(): number {
+    return this.pages.length;
+  }
+
+  addPage(): void {
+    this.pages.push([]);
+    this.current = this.pages.length - 1;
+  }
+
+  setPage(index: number): void {
+    this.current = index;
+  }
+
+  text(
+    x: number,
+    y: number,
+    value: string,
+    options: PdfTextOptions = {}
+  ): void {
+    const size = options.size ?? 10;
+    let text = value.replace(new RegExp(NON_PDF_TEXT, 'g'), '?');
+    if (options.maxWidth) {
+      text = this.truncate(text, size, options.maxWidth);
+    }
+    const left =
+      options.align === 'right'
+        ? x - this.measure(text, size, options.bold)
+        : x;
+    const font = options.bold ? 'F2' : 'F1';
+    this.pages[this.current].push(
+      `BT /${font} ${size} Tf ${this.num(left)} ${this.num(
+        y
+      )} Td (${this.escape(text)}) Tj ET`
+    );
+  }
+
+  line(x1: number, y1: number, x2: number, y2: number, gray = 0): void {
+    this.pages[this.current].push(
+      `${gray} G 0.5 w ${this.num(x1)} ${this.num(y1)} m ${this.num(
+        x2
+      )} ${this.num(y2)} l S 0 G`
+    );
+  }
+
+  fillRect(
+    x: number,
+    y: number,
+    width: number,
+    height: number,
+    gray: number
+  ): void {
+    this.pages[this.current].push(
+      `${gray} g ${this.num(x)} ${this.num(y)} ${this.num(width)} ${this.num(
+        height
+      )} re f 0 g`
+    );
+  }
+
+  /**
+   * Serialize the document; every character is one byte (Latin-1)
+   */
+  toBlob(): Blob {
+    const objects: string[] = [
+      '<< /Type /Catalog /Pages 2 0 R >>',
+      '', // Pages, filled in once the page objects are numbered
+      '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>',
+      '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>',
+    ];
+    const pageIds: number[] = [];
+
+    this.pages.forEach((operations) => {
+      const content = operations.join('\n');
+      objects.push(
+        `<< /Length ${content.length} >>\nstream\n${content}\nendstream`
+      );
+      const contentId = objects.length;
+      objects.push(
+        `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+          `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${contentId} 0 R >>`
+      );
+      pageIds.push(objects.length);
+    });
+    objects[1] = `<< /Type /Pages /Kids [${pageIds
+      .map((id) => `${id} 0 R`)
+      .join(' ')}] /Count ${pageIds.length} >>`;
+
+    let output = '%PDF-1.4\n';
+    const offsets = objects.map((object, i) => {
+      const offset = output.length;
+      output += `${i + 1} 0 obj\n${object}\nendobj\n`;
+      return offset;
+    });
+    const xrefOffset = output.length;
+    output += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+    output += offsets
+      .map((offset) => `${offset.toString().padStart(10, '0')} 00000 n \n`)
+      .join('');
+    output += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\n`;
+    output += `startxref\n${xrefOffset}\n%%EOF`;
+
+    const bytes = new Uint8Array(output.length);
+    for (let i = 0; i < output.length; i++) {
+      bytes[i] = output.charCodeAt(i);
+    }
+    return new Blob([bytes], { type: 'application/pdf' });
+  }
+
+  /**
+   * Approximate text width; exact for digits and punctuation in amounts
+   */
+  private measure(text: string, size: number, bold = false): number {
+    const average = bold
+      ? HELVETICA_BOLD_AVERAGE_WIDTH
+      : HELVETICA_AVERAGE_WIDTH;
+    const units = Array.from(text).reduce(
+      (sum, char) =>
+        sum +
+        (/\d/.test(char)
+          ? HELVETICA_DIGIT_WIDTH
+          : HELVETICA_WIDTHS[char] ?? average),
+      0
+    );
+    return (units * size) / 1000;
+  }
+
+  private truncate(text: string, size: number, maxWidth: number): string {
+    if (this.measure(text, size) <= maxWidth) {
+      return text;
+    }
+    let truncated = text;
+    while (truncated && this.measure(`${truncated}...`, size) > maxWidth) {
+      truncated = truncated.slice(0, -1);
+    }
+    return `${truncated.trimEnd()}...`;
+  }
+
+  private escape(text: string): string {
+    return text.replace(/[\\()]/g, (char) => `\\${char}`);
+  }
+
+  private num(value: number): string {
+    return (Math.round(value * 100) / 100).toString();
+  }
+}
@@ -0,0 +1,116 @@
+import { Injectable } from '@angular/core';
+import { BehaviorSubject, Observable } from 'rxjs';
+import {
+  Notification,
+  NotificationOptions,
+  NotificationType,
+} from '../../shared/models';
+
+/**
+ * Default auto-dismiss delay per notification type (ms)
+ */
+const DEFAULT_DURATIONS: { [type in NotificationType]: number } = {
+  success: 3000,
+  info: 4000,
+  warning: 5000,
+  error: 6000,
+};
+
+const MAX_VISIBLE = 5;
+
+/**
+ * Notification service
+ * Shows toast messages rendered by ToastContainerComponent
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class NotificationService {
+  private notificationsSubject = new BehaviorSubject<Notification[]>([]);
+  public notifications$: Observable<Notification[]> =
+    this.notificationsSubject.asObservable();
+
+  private nextId = 1;
+  private timeoutIds = new Map<number, number>();
+
+  success(message: string, options?: NotificationOptions): number {
+    return this.show('success', message, options);
+  }
+
+  info(message: string, options?: NotificationOptions): number {
+    return this.show('info', message, options);
+  }
+
+  warning(message: string, options?: NotificationOptions): number {
+    return this.show('warning', message, options);
+  }
+
+  error(message: string, options?: NotificationOptions): number {
+    return this.show('error', message, options);
+  }
+
+  /**
+   * Show a toast and schedule its auto-dismiss
+   * Returns the notification id so callers can dismiss it early
+   */
+  show(
+    type: NotificationType,
+    message: string,
+    options: NotificationOptions = {}
+  ): number {
+    const notification: Notification = {
+      id: this.nextId++,
+      type,
+      message,
+      ...options,
+      duration: options.duration ?? DEFAULT_DURATIONS[type],
+    };
+
+    let notifications = [...this.notificationsSubject.value, notification];
+
+    // Drop the oldest toasts when the stack is full
+    while (notifications.length > MAX_VISIBLE) {
+      this.clearTimer(notifications[0].id);
+      notifications = notifications.slice(1);
+    }
+
+    this.notificationsSubject.next(notifications);
+
+    if (notification.duration) {
+      const timeoutId = window.setTimeout(
+        () => this.dismiss(notification.id),
+        notification.duration
+      );
+      this.timeoutIds.set(notification.id, timeoutId);
+    }
+
+    return notification.id;
+  }
+
+  /**
+   * Remove a toast
+   */
+  dismiss(id: number): void {
+    this.clearTimer(id);
+    this.notificationsSubject.next(
+      this.notificationsSubject.value.filter((n) => n.id !== id)
+    );
+  }
+
+  /**
+   * Remove all toasts
+   */
+  clear(): void {
+    this.timeoutIds.forEach((timeoutId) => clearTimeout(timeoutId));
+    this.timeoutIds.clear();
+    this.notificationsSubject.next([]);
+  }
+
+  private clearTimer(id: number): void {
+    const timeoutId = this.timeoutIds.get(id);
+    if (timeoutId !== undefined) {
+      clearTimeout(timeoutId);
+      this.timeoutIds.delete(id);
+    }
+  }
+}
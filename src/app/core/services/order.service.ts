@@ -1,22 +1,36 @@
-import { Injectable } from '@angular/core';
-import { HttpClient } from '@angular/common/http';
-import { Observable } from 'rxjs';
+import { Inject, Injectable } from '@angular/core';
+import { HttpClient, HttpParams } from '@angular/common/http';
+import { Observable, throwError } from 'rxjs';
 import {
+  ApiError,
   Order,
   OrderDetail,
   CreateOrderRequest,
+  CancelOrderRequest,
+  OrderStatus,
   PaginatedResult,
   PaginationParams,
+  OrderQueryParams,
   UpdateOrderStatusRequest,
 } from 'src/app/shared/models';
+import { API_CONFIG, ApiConfig, buildApiUrl } from '../config/api-config';
+import {
+  canChangeOrderStatus,
+  orderStatusRequiresReason,
+} from '../config/order-workflow';
 
 @Injectable({
   providedIn: 'root',
 })
 export class OrderService {
-  private apiUrl = 'http://localhost:5296/api/Order';
+  private get apiUrl(): string {
+    return buildApiUrl(this.apiConfig, 'order');
+  }
 
-  constructor(private http: HttpClient) {}
+  constructor(
+    private http: HttpClient,
+    @Inject(API_CONFIG) private apiConfig: ApiConfig
+  ) {}
 
   /**
    * Create order from cart
@@ -42,23 +56,93 @@ export class OrderService {
   }
 
   /**
-   * Get all orders (Admin only)
+   * Cancel one of the current user's orders
+   * Only allowed before the order ships; returns the updated order,
+   * or null when the API answers without a body
+   */
+  cancelOrder(order: Order, reason: string): Observable<OrderDetail | null> {
+    if (!canChangeOrderStatus(order.status, OrderStatus.Cancelled)) {
+      return throwError(
+        (): ApiError => ({
+          message: 'This order can no longer be cancelled.',
+        })
+      );
+    }
+    if (!reason.trim()) {
+      return throwError(
+        (): ApiError => ({ message: 'Please tell us why you are cancelling.' })
+      );
+    }
+
+    const request: CancelOrderRequest = { reason: reason.trim() };
+    return this.http.post<OrderDetail | null>(
+      `${this.apiUrl}/${order.id}/cancel`,
+      request
+    );
+  }
+
+  /**
+   * Get all orders, optionally filtered (Admin only)
    */
-  getAllOrders(params?: PaginationParams): Observable<PaginatedResult<Order>> {
+  getAllOrders(params?: OrderQueryParams): Observable<PaginatedResult<Order>> {
+    let httpParams = new HttpParams();
+
+    if (params) {
+      if (params.pageNumber)
+        httpParams = httpParams.set('pageNumber', params.pageNumber.toString());
+      if (params.pageSize)
+        httpParams = httpParams.set('pageSize', params.pageSize.toString());
+      if (params.searchTerm)
+        httpParams = httpParams.set('searchTerm', params.searchTerm);
+      if (params.sortBy) httpParams = httpParams.set('sortBy', params.sortBy);
+      if (params.isDescending !== undefined)
+        httpParams = httpParams.set(
+          'isDescending',
+          params.isDescending.toString()
+        );
+      if (params.status !== undefined)
+        httpParams = httpParams.set('status', params.status.toString());
+      if (params.paymentMethod !== undefined)
+        httpParams = httpParams.set(
+          'paymentMethod',
+          params.paymentMethod.toString()
+        );
+      if (params.fromDate)
+        httpParams = httpParams.set('fromDate', params.fromDate);
+      if (params.toDate) httpParams = httpParams.set('toDate', params.toDate);
+    }
+
     return this.http.get<PaginatedResult<Order>>(`${this.apiUrl}/all`, {
-      params: params as any,
+      params: httpParams,
     });
   }
 
   /**
    * Update order status (Admin only)
+   * Changes outside the order workflow are rejected without calling the API
    */
   updateOrderStatus(
-    orderId: string,
+    order: Order,
     updateOrder: UpdateOrderStatusRequest
   ): Observable<void> {
+    if (!canChangeOrderStatus(order.status, updateOrder.status)) {
+      return throwError(
+        (): ApiError => ({
+          message: 'This status change is not allowed for the order.',
+        })
+      );
+    }
+    if (
+      orderStatusRequiresReason(updateOrder.status) &&
+      !updateOrder.reason?.trim()
+    ) {
+      return throwError(
+        (): ApiError => ({ message: 'A reason is required for this change.' })
+      );
+    }
+
     return this.http.patch<void>(
-      `${this.apiUrl}/${orderId}/status`,
+      `${this.apiUrl}/${order.id}/status`,
       updateOrder
     );
   }
@@ -0,0 +1,112 @@
+import { TestBed } from '@angular/core/testing';
+import { HttpClientTestingModule } from '@angular/common/http/testing';
+
+import { ProductTransferService } from './product-transfer.service';
+import { Category, ProductDetail } from '../../shared/models';
+
+describe('ProductTransferService', () => {
+  let service: ProductTransferService;
+
+  const categories: Category[] = [
+    { id: 'cat-1', name: 'Books', description: '' },
+  ];
+  const catalog: ProductDetail[] = [
+    {
+      id: 'product-1',
+      name: 'Old Book',
+      description: 'A well-kept classic',
+      price: 10,
+      categoryId: 'cat-1',
+      images: [],
+    },
+  ];
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({
+      imports: [HttpClientTestingModule],
+    });
+    service = TestBed.inject(ProductTransferService);
+  });
+
+  it('should parse quoted CSV fields', () => {
+    const rows = service.parseCsv(
+      'name,description\r\n"Book, Vol. 1","Says ""hi""\non two lines"\r\n\r\n'
+    );
+
+    expect(rows).toEqual([
+      ['name', 'description'],
+      ['Book, Vol. 1', 'Says "hi"\non two lines'],
+    ]);
+  });
+
+  it('should keep exported cells from running as formulas', () => {
+    const csv = service.serialize(
+      [{ ...catalog[0], name: '=HYPERLINK("x")' }],
+      categories,
+      'csv'
+    );
+    const [headers, ...rows] = service.parseCsv(csv);
+
+    expect(csv).toContain(`"'=HYPERLINK(""x"")"`);
+    expect(
+      service.planImport(rows, service.guessMapping(headers), categories, [])[0]
+        .request.name
+    ).toBe('=HYPERLINK("x")');
+  });
+
+  it('should plan creates, updates and invalid rows', () => {
+    const [headers, ...rows] = service.parseCsv(
+      'Name,Price,Category\nOld Book,12,books\nNew Book,5,Books\nXy,abc,Toys'
+    );
+    const plan = service.planImport(
+      rows,
+      service.guessMapping(headers),
+      categories,
+      catalog
+    );
+
+    expect(plan.map((row) => row.action)).toEqual([
+      'update',
+      'create',
+      'invalid',
+    ]);
+    expect(plan[0].changes).toEqual([
+      { field: 'price', from: '10.00', to: '12.00' },
+    ]);
+    expect(plan[2].errors.length).toBe(3);
+  });
+
+  it('should keep descriptions when the file has none', () => {
+    const [headers, ...rows] = service.parseCsv(
+      'Name,Description,Price,Category\nOld Book,,10,Books'
+    );
+    const plan = service.planImport(
+      rows,
+      service.guessMapping(headers),
+      categories,
+      catalog
+    );
+
+    expect(plan[0].action).toBe('unchanged');
+    expect(plan[0].request.description).toBeUndefined();
+  });
+
+  it('should export and import stock', () => {
+    const csv = service.serialize(
+      [{ ...catalog[0], stockQuantity: 7 }],
+      categories,
+      'csv'
+    );
+    const [headers, ...rows] = service.parseCsv(csv);
+    const plan = service.planImport(
+      [...rows, ['', 'New Book', '', '5', 'many', 'Books']],
+      service.guessMapping(headers),
+      categories,
+      catalog
+    );
+
+    expect(headers).toContain('stock');
+    expect(plan[0].changes).toEqual([{ field: 'stock', from: '', to: '7' }]);
+    expect(plan[1].errors).toEqual(['Invalid stock "many".']);
+  });
+});
@@ -0,0 +1,451 @@
+import { Injectable } from '@angular/core';
+import {
+  Observable,
+  catchError,
+  filter,
+  from,
+  map,
+  mergeMap,
+  of,
+  scan,
+  startWith,
+  switchMap,
+  throwError,
+  toArray,
+} from 'rxjs';
+import {
+  ApiError,
+  CatalogExportFormat,
+  Category,
+  CreateProductRequest,
+  PaginatedResult,
+  Product,
+  ProductColumnMapping,
+  ProductDetail,
+  ProductFieldChange,
+  ProductImportField,
+  ProductImportProgress,
+  ProductImportRow,
+} from '../../shared/models';
+import { DETAIL_FETCH_CONCURRENCY, ProductService } from './product.service';
+
+export const EXPORT_PAGE_SIZE = 100;
+export const IMPORT_CONCURRENCY = 3;
+
+// Cells starting like this are run as formulas by spreadsheet apps
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+const EXPORT_COLUMNS: ProductImportField[] = [
+  'id',
+  'name',
+  'description',
+  'price',
+  'stock',
+  'category',
+];
+
+// Header names recognised when guessing the column mapping
+const FIELD_ALIASES: Record<ProductImportField, string[]> = {
+  id: ['id', 'productid', 'product id'],
+  name: ['name', 'productname', 'product name', 'title'],
+  description: ['description', 'details'],
+  price: ['price', 'unitprice', 'unit price'],
+  stock: ['stock', 'stockquantity', 'stock quantity', 'quantity', 'qty'],
+  category: ['category', 'categoryname', 'category name'],
+};
+
+/**
+ * Product transfer service
+ * Exports the full catalog to CSV/JSON and plans and runs CSV imports.
+ * Imports match categories by name and existing products by id or name.
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class ProductTransferService {
+  constructor(private productService: ProductService) {}
+
+  /**
+   * Load every product of the catalog (all pages) with its details
+   * Pages and details are fetched DETAIL_FETCH_CONCURRENCY at a time
+   */
+  getCatalog(): Observable<ProductDetail[]> {
+    return this.getProductPage(1).pipe(
+      switchMap((firstPage) => {
+        const pageNumbers = Array.from(
+          { length: Math.max(0, firstPage.totalPages - 1) },
+          (_, i) => i + 2
+        );
+        return from(pageNumbers).pipe(
+          mergeMap(
+            (pageNumber) => this.getProductPage(pageNumber),
+            DETAIL_FETCH_CONCURRENCY
+          ),
+          toArray(),
+          map((pages) =>
+            [firstPage, ...pages].sort((a, b) => a.pageNumber - b.pageNumber)
+          )
+        );
+      }),
+      map((pages) => pages.flatMap((page) => page.items)),
+      switchMap((products) => this.withDetails(products))
+    );
+  }
+
+  /**
+   * Serialize products with the import columns; categories are written by name
+   * Images are left out: imports create products without images.
+   */
+  serialize(
+    products: ProductDetail[],
+    categories: Category[],
+    format: CatalogExportFormat
+  ): string {
+    const categoryName = (product: ProductDetail) =>
+      categories.find((c) => c.id === product.categoryId)?.name ?? '';
+
+    if (format === 'json') {
+      return JSON.stringify(
+        products.map((product) => ({
+          id: product.id,
+          name: product.name,
+          description: product.description ?? '',
+          price: product.price,
+          stock: product.stockQuantity ?? null,
+          category: categoryName(product),
+        })),
+        null,
+        2
+      );
+    }
+
+    const rows = products.map((product) => [
+      product.id,
+      product.name,
+      product.description ?? '',
+      product.price.toString(),
+      product.stockQuantity?.toString() ?? '',
+      categoryName(product),
+    ]);
+    return [EXPORT_COLUMNS, ...rows]
+      .map((row) => row.map((value) => this.escapeCsv(value)).join(','))
+      .join('\r\n');
+  }
+
+  /**
+   * Save text as a file through a temporary download link
+   */
+  download(
+    content: string,
+    fileName: string,
+    format: CatalogExportFormat
+  ): void {
+    const type = format === 'json' ? 'application/json' : 'text/csv';
+    const url = URL.createObjectURL(
+      new Blob([content], { type: `${type};charset=utf-8` })
+    );
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    link.click();
+    URL.revokeObjectURL(url);
+  }
+
+  /**
+   * Parse CSV text (RFC 4180: quoted fields, escaped quotes, CRLF)
+   * Blank lines are dropped.
+   */
+  parseCsv(text: string): string[][] {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = '';
+    let inQuotes = false;
+    const input = text.replace(/^\uFEFF/, '');
+
+    for (let i = 0; i < input.length; i++) {
+      const char = input[i];
+      if (inQuotes) {
+        if (char === '"' && input[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else if (char === '"') {
+          inQuotes = false;
+        } else {
+          field += char;
+        }
+      } else if (char === '"') {
+        inQuotes = true;
+      } else if (char === ',') {
+        row.push(field);
+        field = '';
+      } else if (char === '\n' || char === '\r') {
+        if (char === '\r' && input[i + 1] === '\n') i++;
+        row.push(field);
+        rows.push(row);
+        row = [];
+        field = '';
+      } else {
+        field += char;
+      }
+    }
+    row.push(field);
+    rows.push(row);
+
+    return rows.filter((r) => r.some((value) => value.trim() !== ''));
+  }
+
+  /**
+   * Map fields to columns by their header names
+   */
+  guessMapping(headers: string[]): ProductColumnMapping {
+    const normalized = headers.map((header) => header.trim().toLowerCase());
+    const mapping = {} as ProductColumnMapping;
+    (Object.keys(FIELD_ALIASES) as ProductImportField[]).forEach((field) => {
+      const index = normalized.findIndex((header) =>
+        FIELD_ALIASES[field].includes(header)
+      );
+      mapping[field] = index >= 0 ? index : null;
+    });
+    return mapping;
+  }
+
+  /**
+   * Validate the data rows and decide what importing each one would do
+   * Nothing is sent to the API; this is the dry run shown before importing.
+   */
+  planImport(
+    rows: string[][],
+    mapping: ProductColumnMapping,
+    categories: Category[],
+    catalog: ProductDetail[]
+  ): ProductImportRow[] {
+    const seenNames = new Set<string>();
+
+    return rows.map((row, i) => {
+      const value = (field: ProductImportField) => {
+        const index = mapping[field];
+        const cell = index === null ? '' : (row[index] ?? '').trim();
+        return cell.startsWith("'") && FORMULA_PREFIX.test(cell.slice(1))
+          ? cell.slice(1)
+          : cell;
+      };
+      const errors: string[] = [];
+
+      const name = value('name');
+      if (name.length < 3) {
+        errors.push('Name must be at least 3 characters.');
+      } else if (seenNames.has(name.toLowerCase())) {
+        errors.push(`"${name}" appears more than once in the file.`);
+      }
+      seenNames.add(name.toLowerCase());
+
+      const price = Number(value('price').replace(/[$,\s]/g, ''));
+      if (!value('price') || isNaN(price) || price < 0.01) {
+        errors.push(`Invalid price "${value('price')}".`);
+      }
+
+      // A missing or blank stock keeps the one the product has
+      const stock = value('stock');
+      if (stock && !/^\d+$/.test(stock)) {
+        errors.push(`Invalid stock "${stock}".`);
+      }
+
+      const categoryName = value('category');
+      const category = categories.find(
+        (c) => c.name.trim().toLowerCase() === categoryName.toLowerCase()
+      );
+      if (!category) {
+        errors.push(
+          categoryName
+            ? `Unknown category "${categoryName}".`
+            : 'Category is required.'
+        );
+      }
+
+      const id = value('id');
+      const existing = id
+        ? catalog.find((product) => product.id === id)
+        : catalog.find(
+            (product) => product.name.toLowerCase() === name.toLowerCase()
+          );
+      if (id && !existing) {
+        errors.push(`No product with id ${id}.`);
+      }
+
+      // A missing or blank description keeps the one the product has
+      const request: CreateProductRequest = {
+        name,
+        description: value('description') || undefined,
+        price: Math.round(price * 100) / 100,
+        categoryId: category?.id ?? '',
+        stockQuantity: stock ? Number(stock) : undefined,
+      };
+      const changes = existing ? this.diff(existing, request, categories) : [];
+
+      return {
+        rowNumber: i + 2, // 1-based, after the header row
+        request,
+        action: errors.length
+          ? 'invalid'
+          : !existing
+          ? 'create'
+          : changes.length
+          ? 'update'
+          : 'unchanged',
+        existing,
+        changes,
+        errors,
+      };
+    });
+  }
+
+  /**
+   * Create or update the planned rows a few at a time
+   * Emits the progress after every row; failures do not stop the import.
+   */
+  runImport(rows: ProductImportRow[]): Observable<ProductImportProgress> {
+    const pending = rows.filter(
+      (row) => row.action === 'create' || row.action === 'update'
+    );
+    const initial: ProductImportProgress = {
+      completed: 0,
+      total: pending.length,
+      failures: [],
+    };
+
+    return from(pending).pipe(
+      mergeMap(
+        (row) =>
+          this.importRow(row).pipe(
+            map(() => null),
+            catchError((error: ApiError) =>
+              of({
+                rowNumber: row.rowNumber,
+                name: row.request.name,
+                error: error.message,
+              })
+            )
+          ),
+        IMPORT_CONCURRENCY
+      ),
+      scan(
+        (progress, failure) => ({
+          ...progress,
+          completed: progress.completed + 1,
+          failures: failure
+            ? [...progress.failures, failure]
+            : progress.failures,
+        }),
+        initial
+      ),
+      startWith(initial)
+    );
+  }
+
+  private getProductPage(
+    pageNumber: number
+  ): Observable<PaginatedResult<Product>> {
+    return this.productService.getProducts({
+      pageNumber,
+      pageSize: EXPORT_PAGE_SIZE,
+    });
+  }
+
+  private importRow(row: ProductImportRow): Observable<unknown> {
+    if (row.existing) {
+      return this.productService.updateProduct(row.existing.id, {
+        ...row.request,
+        description: row.request.description ?? row.existing.description,
+      });
+    }
+
+    // Imported products are created without images; add them from the edit form
+    const formData = new FormData();
+    formData.append('name', row.request.name);
+    formData.append('description', row.request.description || '');
+    formData.append('price', row.request.price.toString());
+    if (row.request.stockQuantity !== undefined) {
+      formData.append('stockQuantity', row.request.stockQuantity.toString());
+    }
+    formData.append('categoryId', row.request.categoryId);
+    return this.productService
+      .createProductWithImages(formData)
+      .pipe(filter((state) => !!state.done));
+  }
+
+  private withDetails(products: Product[]): Observable<ProductDetail[]> {
+    return this.productService
+      .getProductDetails(products.map((product) => product.id))
+      .pipe(
+        switchMap((details) => {
+          const missing = details.filter((detail) => detail === null).length;
+          if (missing > 0) {
+            return throwError(
+              (): ApiError => ({
+                message: `Details of ${missing} product(s) could not be loaded.`,
+              })
+            );
+          }
+          return of(details as ProductDetail[]);
+        })
+      );
+  }
+
+  private diff(
+    existing: ProductDetail,
+    request: CreateProductRequest,
+    categories: Category[]
+  ): ProductFieldChange[] {
+    const categoryName = (id?: string) =>
+      categories.find((c) => c.id === id)?.name ?? '';
+    const changes: ProductFieldChange[] = [];
+
+    if (existing.name !== request.name) {
+      changes.push({ field: 'name', from: existing.name, to: request.name });
+    }
+    if (
+      request.description !== undefined &&
+      (existing.description ?? '') !== request.description
+    ) {
+      changes.push({
+        field: 'description',
+        from: existing.description ?? '',
+        to: request.description,
+      });
+    }
+    if (existing.price !== request.price) {
+      changes.push({
+        field: 'price',
+        from: existing.price.toFixed(2),
+        to: request.price.toFixed(2),
+      });
+    }
+    if (
+      request.stockQuantity !== undefined &&
+      existing.stockQuantity !== request.stockQuantity
+    ) {
+      changes.push({
+        field: 'stock',
+        from: existing.stockQuantity?.toString() ?? '',
+        to: request.stockQuantity.toString(),
+      });
+    }
+    if (existing.categoryId !== request.categoryId) {
+      changes.push({
+        field: 'category',
+        from: categoryName(existing.categoryId),
+        to: categoryName(request.categoryId),
+      });
+    }
+    return changes;
+  }
+
+  /**
+   * Quote a CSV cell; cells a spreadsheet would run as a formula get a
+   * leading apostrophe, which planImport strips again
+   */
+  private escapeCsv(value: string): string {
+    const cell = FORMULA_PREFIX.test(value) ? `'${value}` : value;
+    return /[",\r\n]/.test(cell) ? `"${cell.replace(/"/g, '""')}"` : cell;
+  }
+}
@@ -0,0 +1,117 @@
+import { TestBed, fakeAsync, tick } from '@angular/core/testing';
+import { HttpEventType } from '@angular/common/http';
+import {
+  HttpClientTestingModule,
+  HttpTestingController,
+} from '@angular/common/http/testing';
+
+import { ProductService, UPLOAD_RETRY_BASE_DELAY_MS } from './product.service';
+import {
+  CartItem,
+  CartStockIssue,
+  ProductDetail,
+  UploadState,
+} from '../../shared/models';
+
+describe('ProductService', () => {
+  let service: ProductService;
+  let httpMock: HttpTestingController;
+
+  const item = (productId: string, quantity: number): CartItem => ({
+    id: `item-${productId}`,
+    productId,
+    productName: productId,
+    unitPrice: 10,
+    quantity,
+    totalPrice: 10 * quantity,
+  });
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({
+      imports: [HttpClientTestingModule],
+    });
+    service = TestBed.inject(ProductService);
+    httpMock = TestBed.inject(HttpTestingController);
+  });
+
+  afterEach(() => {
+    httpMock.verify();
+  });
+
+  it('should report cart lines above the current stock', () => {
+    let issues: CartStockIssue[] = [];
+
+    service
+      .checkStock([item('a', 2), item('b', 3), item('c', 1)])
+      .subscribe((result) => (issues = result));
+
+    httpMock
+      .expectOne((req) => req.url.endsWith('/product/a'))
+      .flush({ id: 'a', stockQuantity: 5 });
+    httpMock
+      .expectOne((req) => req.url.endsWith('/product/b'))
+      .flush({ id: 'b', stockQuantity: 1 });
+    httpMock
+      .expectOne((req) => req.url.endsWith('/product/c'))
+      .flush(null, { status: 404, statusText: 'Not Found' });
+
+    expect(issues.map((i) => [i.productId, i.available])).toEqual([
+      ['b', 1],
+      ['c', 0],
+    ]);
+  });
+
+  it('should finish an upload whose response has no body', () => {
+    const states: UploadState<ProductDetail>[] = [];
+
+    service
+      .createProductWithImages(new FormData())
+      .subscribe((state) => states.push(state));
+
+    const request = httpMock.expectOne((req) => req.url.endsWith('/product'));
+    expect(request.request.headers.has('Idempotency-Key')).toBeFalse();
+    request.flush(null, { status: 204, statusText: 'No Content' });
+
+    expect(states[states.length - 1]).toEqual(
+      jasmine.objectContaining({ progress: 100, done: true })
+    );
+  });
+
+  it('should retry an upload that failed before any data was sent', fakeAsync(() => {
+    const states: UploadState<ProductDetail>[] = [];
+
+    service
+      .createProductWithImages(new FormData())
+      .subscribe((state) => states.push(state));
+
+    httpMock
+      .expectOne((req) => req.url.endsWith('/product'))
+      .error(new ProgressEvent('error'));
+    tick(UPLOAD_RETRY_BASE_DELAY_MS);
+    httpMock
+      .expectOne((req) => req.url.endsWith('/product'))
+      .flush({ id: 'p1' });
+
+    expect(states[0]).toEqual({ progress: 0, retryAttempt: 1 });
+    expect(states[states.length - 1].done).toBeTrue();
+  }));
+
+  it('should not retry a started upload without idempotency keys', fakeAsync(() => {
+    let failed = false;
+
+    service.createProductWithImages(new FormData()).subscribe({
+      error: () => (failed = true),
+    });
+
+    const request = httpMock.expectOne((req) => req.url.endsWith('/product'));
+    request.event({
+      type: HttpEventType.UploadProgress,
+      loaded: 10,
+      total: 100,
+    });
+    request.error(new ProgressEvent('error'));
+    tick(UPLOAD_RETRY_BASE_DELAY_MS);
+
+    expect(failed).toBeTrue();
+  }));
+});
@@ -1,14 +1,51 @@
-import { Injectable } from '@angular/core';
-import { HttpClient, HttpParams } from '@angular/common/http';
-import { Observable } from 'rxjs';
+import { Inject, Injectable } from '@angular/core';
 import {
+  HttpClient,
+  HttpEvent,
+  HttpEventType,
+  HttpHeaders,
+  HttpParams,
+} from '@angular/common/http';
+import {
+  Observable,
+  Subject,
+  catchError,
+  defer,
+  filter,
+  finalize,
+  from,
+  map,
+  merge,
+  mergeMap,
+  of,
+  retry,
+  tap,
+  throwError,
+  timer,
+  toArray,
+} from 'rxjs';
+import {
+  ApiError,
+  CartItem,
+  CartStockIssue,
   Product,
   ProductDetail,
+  ProductImage,
   PaginatedResult,
-  PaginationParams,
+  ProductQueryParams,
   CreateProductRequest,
   UpdateProductRequest,
+  ReorderProductImagesRequest,
+  UploadState,
 } from '../../shared/models';
+import { API_CONFIG, ApiConfig, buildApiUrl } from '../config/api-config';
+import { getMaxOrderQuantity } from '../config/inventory';
+
+export const UPLOAD_MAX_RETRIES = 3;
+export const UPLOAD_RETRY_BASE_DELAY_MS = 1000;
+export const DETAIL_FETCH_CONCURRENCY = 4;
+export const RELATED_PRODUCTS_LIMIT = 8;
+export const DETAIL_CACHE_TTL_MS = 60_000;
 
 /**
  * Product service
@@ -18,14 +55,28 @@ import {
   providedIn: 'root',
 })
 export class ProductService {
-  private apiUrl = 'http://localhost:5296/api/product';
+  private get apiUrl(): string {
+    return buildApiUrl(this.apiConfig, 'product');
+  }
+
+  // Details fetched for the admin table; dropped when the product changes
+  // here or after DETAIL_CACHE_TTL_MS, so changes made elsewhere show up
+  private detailCache = new Map<
+    string,
+    { detail: ProductDetail; cachedAt: number }
+  >();
 
-  constructor(private http: HttpClient) {}
+  constructor(
+    private http: HttpClient,
+    @Inject(API_CONFIG) private apiConfig: ApiConfig
+  ) {}
 
   /**
-   * Get paginated list of products
+   * Get paginated list of products, optionally filtered
    */
-  getProducts(params?: PaginationParams): Observable<PaginatedResult<Product>> {
+  getProducts(
+    params?: ProductQueryParams
+  ): Observable<PaginatedResult<Product>> {
     let httpParams = new HttpParams();
 
     if (params) {
@@ -41,6 +92,13 @@ export class ProductService {
           'isDescending',
           params.isDescending.toString()
         );
+      if (params.categoryId)
+        httpParams = httpParams.set('categoryId', params.categoryId);
+      if (params.minPrice !== undefined)
+        httpParams = httpParams.set('minPrice', params.minPrice.toString());
+      if (params.maxPrice !== undefined)
+        httpParams = httpParams.set('maxPrice', params.maxPrice.toString());
+      if (params.inStock) httpParams = httpParams.set('inStock', 'true');
     }
 
     return this.http.get<PaginatedResult<Product>>(this.apiUrl, {
@@ -52,21 +110,227 @@ export class ProductService {
     return this.http.get<ProductDetail>(`${this.apiUrl}/${id}`);
   }
 
+  /**
+   * Get other products of the same category, newest first
+   */
+  getRelatedProducts(
+    product: ProductDetail,
+    limit: number = RELATED_PRODUCTS_LIMIT
+  ): Observable<Product[]> {
+    if (!product.categoryId) {
+      return of([]);
+    }
+
+    // One extra in case the product itself is part of the page
+    return this.getProducts({
+      categoryId: product.categoryId,
+      pageNumber: 1,
+      pageSize: limit + 1,
+      sortBy: 'CreatedAt',
+      isDescending: true,
+    }).pipe(
+      map((result) =>
+        result.items.filter((p) => p.id !== product.id).slice(0, limit)
+      )
+    );
+  }
+
+  /**
+   * Get details for a page of products, in the order of the given ids
+   * Runs at most DETAIL_FETCH_CONCURRENCY requests at a time and reuses
+   * recently cached details. A failed row is null instead of failing the
+   * whole page.
+   */
+  getProductDetails(ids: string[]): Observable<(ProductDetail | null)[]> {
+    if (ids.length === 0) {
+      return of([]);
+    }
+
+    return from(ids).pipe(
+      mergeMap(
+        (id, index) =>
+          this.getCachedProductDetail(id).pipe(
+            map((detail): [number, ProductDetail | null] => [index, detail]),
+            catchError(() => of<[number, null]>([index, null]))
+          ),
+        DETAIL_FETCH_CONCURRENCY
+      ),
+      toArray(),
+      map((results) => {
+        const details = new Array<ProductDetail | null>(ids.length);
+        results.forEach(([index, detail]) => (details[index] = detail));
+        return details;
+      })
+    );
+  }
+
+  /**
+   * Re-read the stock of every cart line, bypassing the detail cache
+   * Returns the lines asking for more than is left; a product that no longer
+   * exists counts as sold out
+   */
+  checkStock(items: CartItem[]): Observable<CartStockIssue[]> {
+    return from(items).pipe(
+      mergeMap(
+        (item) =>
+          this.getProductById(item.productId).pipe(
+            map((product) => product.stockQuantity),
+            catchError((error: ApiError) =>
+              error.status === 404 ? of(0) : throwError(() => error)
+            ),
+            map(
+              (stockQuantity): CartStockIssue => ({
+                itemId: item.id,
+                productId: item.productId,
+                productName: item.productName,
+                requested: item.quantity,
+                available: getMaxOrderQuantity(stockQuantity),
+              })
+            )
+          ),
+        DETAIL_FETCH_CONCURRENCY
+      ),
+      filter((issue) => issue.available < issue.requested),
+      toArray()
+    );
+  }
+
   /**
    * Create product with images (multipart/form-data)
+   * Emits upload progress; the last state has `done` set, body or not.
+   * Network failures before any data was sent are retried with backoff.
+   * Once the upload started, the API may already have the product, so
+   * failures are only retried when it supports Idempotency-Key
+   * (ApiConfig.supportsIdempotencyKeys): all attempts share one key so the
+   * API creates the product once.
+   * Unsubscribing aborts the upload.
    */
-  createProductWithImages(formData: FormData): Observable<ProductDetail> {
-    return this.http.post<ProductDetail>(this.apiUrl, formData);
+  createProductWithImages(
+    formData: FormData
+  ): Observable<UploadState<ProductDetail>> {
+    const supportsIdempotencyKeys = !!this.apiConfig.supportsIdempotencyKeys;
+    const headers = supportsIdempotencyKeys
+      ? new HttpHeaders({ 'Idempotency-Key': this.createIdempotencyKey() })
+      : undefined;
+    const retries$ = new Subject<UploadState<ProductDetail>>();
+    let uploadStarted = false;
+
+    const upload$ = defer(() => {
+      uploadStarted = false;
+      return this.http.post<ProductDetail>(this.apiUrl, formData, {
+        headers,
+        reportProgress: true,
+        observe: 'events',
+      });
+    }).pipe(
+      tap((event) => {
+        if (event.type === HttpEventType.UploadProgress && event.loaded > 0) {
+          uploadStarted = true;
+        }
+      }),
+      map((event) => this.toUploadState(event)),
+      filter((state): state is UploadState<ProductDetail> => !!state),
+      retry({
+        count: UPLOAD_MAX_RETRIES,
+        delay: (error: ApiError, retryAttempt) => {
+          // Only network failures are retried; API errors are final
+          if (
+            error.status !== 0 ||
+            (uploadStarted && !supportsIdempotencyKeys)
+          ) {
+            return throwError(() => error);
+          }
+          retries$.next({ progress: 0, retryAttempt });
+          return timer(UPLOAD_RETRY_BASE_DELAY_MS * 2 ** (retryAttempt - 1));
+        },
+      }),
+      finalize(() => retries$.complete())
+    );
+
+    return merge(retries$, upload$);
   }
 
   updateProduct(
     id: string,
     updateProduct: UpdateProductRequest
   ): Observable<void> {
-    return this.http.put<void>(`${this.apiUrl}/${id}`, updateProduct);
+    return this.http
+      .put<void>(`${this.apiUrl}/${id}`, updateProduct)
+      .pipe(tap(() => this.detailCache.delete(id)));
   }
 
   deleteProduct(id: string): Observable<void> {
-    return this.http.delete<void>(`${this.apiUrl}/${id}`);
+    return this.http
+      .delete<void>(`${this.apiUrl}/${id}`)
+      .pipe(tap(() => this.detailCache.delete(id)));
+  }
+
+  /**
+   * Upload more images to an existing product (multipart/form-data)
+   * Returns the full image gallery after the upload
+   */
+  addProductImages(id: string, formData: FormData): Observable<ProductImage[]> {
+    return this.http
+      .post<ProductImage[]>(`${this.apiUrl}/${id}/images`, formData)
+      .pipe(tap(() => this.detailCache.delete(id)));
+  }
+
+  deleteProductImage(id: string, imageId: string): Observable<void> {
+    return this.http
+      .delete<void>(`${this.apiUrl}/${id}/images/${imageId}`)
+      .pipe(tap(() => this.detailCache.delete(id)));
+  }
+
+  /**
+   * Make an image the one shown in product listings
+   */
+  setMainProductImage(id: string, imageId: string): Observable<void> {
+    return this.http
+      .put<void>(`${this.apiUrl}/${id}/images/${imageId}/main`, {})
+      .pipe(tap(() => this.detailCache.delete(id)));
+  }
+
+  /**
+   * Persist the gallery order; imageIds lists every image of the product
+   */
+  reorderProductImages(id: string, imageIds: string[]): Observable<void> {
+    const request: ReorderProductImagesRequest = { imageIds };
+    return this.http
+      .put<void>(`${this.apiUrl}/${id}/images/order`, request)
+      .pipe(tap(() => this.detailCache.delete(id)));
+  }
+
+  private getCachedProductDetail(id: string): Observable<ProductDetail> {
+    const cached = this.detailCache.get(id);
+    if (cached && Date.now() - cached.cachedAt < DETAIL_CACHE_TTL_MS) {
+      return of(cached.detail);
+    }
+    return this.getProductById(id).pipe(
+      tap((detail) =>
+        this.detailCache.set(id, { detail, cachedAt: Date.now() })
+      )
+    );
+  }
+
+  private toUploadState<T>(event: HttpEvent<T>): UploadState<T> | null {
+    switch (event.type) {
+      case HttpEventType.UploadProgress:
+        return {
+          progress: event.total
+            ? Math.round((100 * event.loaded) / event.total)
+            : 0,
+        };
+      case HttpEventType.Response:
+        return { progress: 100, done: true, result: event.body ?? undefined };
+      default:
+        return null;
+    }
+  }
+
+  private createIdempotencyKey(): string {
+    if (typeof crypto !== 'undefined' && 'randomUUID' in crypto) {
+      return crypto.randomUUID();
+    }
+    return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`;
   }
 }
@@ -0,0 +1,48 @@
+import { TestBed } from '@angular/core/testing';
+import {
+  HttpClientTestingModule,
+  HttpTestingController,
+} from '@angular/common/http/testing';
+
+import { ReviewService } from './review.service';
+import { ApiError } from '../../shared/models';
+
+describe('ReviewService', () => {
+  let service: ReviewService;
+  let httpMock: HttpTestingController;
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({
+      imports: [HttpClientTestingModule],
+    });
+    service = TestBed.inject(ReviewService);
+    httpMock = TestBed.inject(HttpTestingController);
+  });
+
+  afterEach(() => {
+    httpMock.verify();
+  });
+
+  it('should reject ratings outside 1-5 without calling the API', () => {
+    let error: ApiError | undefined;
+
+    service
+      .createReview('product-1', { rating: 6 })
+      .subscribe({ error: (err: ApiError) => (error = err) });
+
+    expect(error?.message).toContain('1 to 5');
+  });
+
+  it('should request the rating summaries of all products at once', () => {
+    service.getRatingSummaries(['product-1', 'product-2']).subscribe();
+
+    const request = httpMock.expectOne((req) =>
+      req.url.endsWith('/review/summary')
+    );
+    expect(request.request.params.getAll('productIds')).toEqual([
+      'product-1',
+      'product-2',
+    ]);
+    request.flush([]);
+  });
+});
@@ -0,0 +1,146 @@
+import { Inject, Injectable } from '@angular/core';
+import { HttpClient, HttpParams } from '@angular/common/http';
+import { Observable, of, throwError } from 'rxjs';
+import {
+  ApiError,
+  CreateReviewRequest,
+  MAX_REVIEW_RATING,
+  MIN_REVIEW_RATING,
+  PaginatedResult,
+  PaginationParams,
+  ProductRatingSummary,
+  Review,
+  ReviewEligibility,
+  ReviewQueryParams,
+} from '../../shared/models';
+import { API_CONFIG, ApiConfig, buildApiUrl } from '../config/api-config';
+
+/**
+ * Review service
+ * Handles product reviews, rating summaries and review moderation
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class ReviewService {
+  private get apiUrl(): string {
+    return buildApiUrl(this.apiConfig, 'review');
+  }
+
+  constructor(
+    private http: HttpClient,
+    @Inject(API_CONFIG) private apiConfig: ApiConfig
+  ) {}
+
+  /**
+   * Get the visible reviews of a product (paginated, newest first)
+   */
+  getProductReviews(
+    productId: string,
+    params?: PaginationParams
+  ): Observable<PaginatedResult<Review>> {
+    return this.http.get<PaginatedResult<Review>>(
+      `${this.apiUrl}/product/${productId}`,
+      { params: this.toHttpParams(params) }
+    );
+  }
+
+  /**
+   * Get the rating summaries of several products in one request
+   * Products without reviews are left out of the result
+   */
+  getRatingSummaries(productIds: string[]): Observable<ProductRatingSummary[]> {
+    if (productIds.length === 0) {
+      return of([]);
+    }
+
+    let httpParams = new HttpParams();
+    productIds.forEach((id) => {
+      httpParams = httpParams.append('productIds', id);
+    });
+
+    return this.http.get<ProductRatingSummary[]>(`${this.apiUrl}/summary`, {
+      params: httpParams,
+    });
+  }
+
+  /**
+   * Check whether the current user may review the product
+   */
+  getEligibility(productId: string): Observable<ReviewEligibility> {
+    return this.http.get<ReviewEligibility>(
+      `${this.apiUrl}/product/${productId}/eligibility`
+    );
+  }
+
+  /**
+   * Review a product the current user has bought
+   * Ratings outside 1-5 are rejected without calling the API
+   */
+  createReview(
+    productId: string,
+    request: CreateReviewRequest
+  ): Observable<Review> {
+    if (
+      !Number.isInteger(request.rating) ||
+      request.rating < MIN_REVIEW_RATING ||
+      request.rating > MAX_REVIEW_RATING
+    ) {
+      return throwError(
+        (): ApiError => ({
+          message: `Please choose a rating from ${MIN_REVIEW_RATING} to ${MAX_REVIEW_RATING} stars.`,
+        })
+      );
+    }
+
+    return this.http.post<Review>(`${this.apiUrl}/product/${productId}`, {
+      rating: request.rating,
+      comment: request.comment?.trim() || undefined,
+    });
+  }
+
+  /**
+   * Get all reviews, optionally only hidden or visible ones (Admin only)
+   */
+  getAllReviews(
+    params?: ReviewQueryParams
+  ): Observable<PaginatedResult<Review>> {
+    let httpParams = this.toHttpParams(params);
+    if (params?.isHidden !== undefined)
+      httpParams = httpParams.set('isHidden', params.isHidden.toString());
+
+    return this.http.get<PaginatedResult<Review>>(this.apiUrl, {
+      params: httpParams,
+    });
+  }
+
+  /**
+   * Hide a review from the product page or show it again (Admin only)
+   */
+  setHidden(reviewId: string, isHidden: boolean): Observable<void> {
+    return this.http.patch<void>(`${this.apiUrl}/${reviewId}/visibility`, {
+      isHidden,
+    });
+  }
+
+  private toHttpParams(params?: PaginationParams): HttpParams {
+    let httpParams = new HttpParams();
+
+    if (params) {
+      if (params.pageNumber)
+        httpParams = httpParams.set('pageNumber', params.pageNumber.toString());
+      if (params.pageSize)
+        httpParams = httpParams.set('pageSize', params.pageSize.toString());
+      if (params.searchTerm)
+        httpParams = httpParams.set('searchTerm', params.searchTerm);
+      if (params.sortBy) httpParams = httpParams.set('sortBy', params.sortBy);
+      if (params.isDescending !== undefined)
+        httpParams = httpParams.set(
+          'isDescending',
+          params.isDescending.toString()
+        );
+    }
+
+    return httpParams;
+  }
+}
@@ -0,0 +1,120 @@
+import { Inject, Injectable } from '@angular/core';
+import { HttpClient, HttpParams } from '@angular/common/http';
+import { Observable } from 'rxjs';
+import {
+  Order,
+  PaginatedResult,
+  PaginationParams,
+  UpdateUserRequest,
+  User,
+  UserDetail,
+  UserRole,
+} from '../../shared/models';
+import { API_CONFIG, ApiConfig, buildApiUrl } from '../config/api-config';
+
+/**
+ * User service
+ * Handles user account management operations (Admin only)
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class UserService {
+  private get apiUrl(): string {
+    return buildApiUrl(this.apiConfig, 'user');
+  }
+
+  constructor(
+    private http: HttpClient,
+    @Inject(API_CONFIG) private apiConfig: ApiConfig
+  ) {}
+
+  /**
+   * Get all users (paginated)
+   */
+  getUsers(params?: PaginationParams): Observable<PaginatedResult<User>> {
+    return this.http.get<PaginatedResult<User>>(this.apiUrl, {
+      params: this.toHttpParams(params),
+    });
+  }
+
+  /**
+   * Get user by ID
+   */
+  getUserById(id: string): Observable<UserDetail> {
+    return this.http.get<UserDetail>(`${this.apiUrl}/${id}`);
+  }
+
+  /**
+   * Get orders placed by a user (paginated)
+   */
+  getUserOrders(
+    id: string,
+    params?: PaginationParams
+  ): Observable<PaginatedResult<Order>> {
+    return this.http.get<PaginatedResult<Order>>(
+      `${this.apiUrl}/${id}/orders`,
+      { params: this.toHttpParams(params) }
+    );
+  }
+
+  /**
+   * Update user profile
+   */
+  updateUser(id: string, request: UpdateUserRequest): Observable<void> {
+    return this.http.put<void>(`${this.apiUrl}/${id}`, request);
+  }
+
+  /**
+   * Assign role to user
+   */
+  assignRole(id: string, role: UserRole): Observable<void> {
+    return this.http.post<void>(`${this.apiUrl}/assign-role`, null, {
+      params: { id, role },
+    });
+  }
+
+  /**
+   * Remove role from user
+   */
+  removeRole(id: string, role: UserRole): Observable<void> {
+    return this.http.post<void>(`${this.apiUrl}/remove-role`, null, {
+      params: { id, role },
+    });
+  }
+
+  /**
+   * Lock user account (prevents sign-in)
+   */
+  lockUser(id: string): Observable<void> {
+    return this.http.post<void>(`${this.apiUrl}/${id}/lock`, null);
+  }
+
+  /**
+   * Unlock user account
+   */
+  unlockUser(id: string): Observable<void> {
+    return this.http.post<void>(`${this.apiUrl}/${id}/unlock`, null);
+  }
+
+  private toHttpParams(params?: PaginationParams): HttpParams {
+    let httpParams = new HttpParams();
+
+    if (params) {
+      if (params.pageNumber)
+        httpParams = httpParams.set('pageNumber', params.pageNumber.toString());
+      if (params.pageSize)
+        httpParams = httpParams.set('pageSize', params.pageSize.toString());
+      if (params.searchTerm)
+        httpParams = httpParams.set('searchTerm', params.searchTerm);
+      if (params.sortBy) httpParams = httpParams.set('sortBy', params.sortBy);
+      if (params.isDescending !== undefined)
+        httpParams = httpParams.set(
+          'isDescending',
+          params.isDescending.toString()
+        );
+    }
+
+    return httpParams;
+  }
+}
@@ -0,0 +1,235 @@
+import { Inject, Injectable } from '@angular/core';
+import { HttpClient } from '@angular/common/http';
+import {
+  Observable,
+  catchError,
+  concatMap,
+  distinctUntilChanged,
+  from,
+  map,
+  of,
+  reduce,
+  switchMap,
+  tap,
+  throwError,
+} from 'rxjs';
+import {
+  AddWishlistItemRequest,
+  ApiError,
+  CartItem,
+  Product,
+  WishlistItem,
+} from 'src/app/shared/models';
+import {
+  AuthStore,
+  GuestCartStore,
+  GuestWishlistStore,
+  WishlistStore,
+} from 'src/app/store';
+import { API_CONFIG, ApiConfig, buildApiUrl } from '../config/api-config';
+import { getAddableQuantity } from '../config/inventory';
+import { CartService } from './cart.service';
+
+/**
+ * Wishlist service
+ * Keeps the wishlist on the server for signed-in users and in localStorage
+ * for guests; callers don't need to know which one is in use
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class WishlistService {
+  private get apiUrl(): string {
+    return buildApiUrl(this.apiConfig, 'wishlist');
+  }
+
+  // Wishlist of the current visitor, signed in or not
+  public items$: Observable<WishlistItem[]> = this.authStore.auth$.pipe(
+    map((auth) => auth.isAuthenticated),
+    distinctUntilChanged(),
+    switchMap((isLoggedIn) =>
+      isLoggedIn ? this.wishlistStore.items$ : this.guestWishlistStore.items$
+    )
+  );
+  public count$: Observable<number> = this.items$.pipe(
+    map((items) => items.length),
+    distinctUntilChanged()
+  );
+  // False while a signed-in user's wishlist is still loading
+  public isReady$: Observable<boolean> = this.authStore.auth$.pipe(
+    map((auth) => auth.isAuthenticated),
+    distinctUntilChanged(),
+    switchMap((isLoggedIn) =>
+      isLoggedIn ? this.wishlistStore.isLoaded$ : of(true)
+    )
+  );
+
+  constructor(
+    private http: HttpClient,
+    private authStore: AuthStore,
+    private wishlistStore: WishlistStore,
+    private guestWishlistStore: GuestWishlistStore,
+    private guestCartStore: GuestCartStore,
+    private cartService: CartService,
+    @Inject(API_CONFIG) private apiConfig: ApiConfig
+  ) {}
+
+  /**
+   * Load the signed-in user's wishlist from the server
+   */
+  getWishlist(): Observable<WishlistItem[]> {
+    return this.http
+      .get<WishlistItem[]>(this.apiUrl)
+      .pipe(tap((items) => this.wishlistStore.setItems(items)));
+  }
+
+  /**
+   * Whether a product is in the current wishlist
+   */
+  isInWishlist$(productId: string): Observable<boolean> {
+    return this.items$.pipe(
+      map((items) => items.some((item) => item.productId === productId)),
+      distinctUntilChanged()
+    );
+  }
+
+  /**
+   * Add a product to the wishlist
+   */
+  addItem(product: Product): Observable<WishlistItem[]> {
+    if (!this.authStore.isAuthenticated()) {
+      this.guestWishlistStore.addItem(product);
+      return of(this.guestWishlistStore.getItemsValue());
+    }
+
+    const request: AddWishlistItemRequest = { productId: product.id };
+    return this.http
+      .post<WishlistItem[]>(this.apiUrl, request)
+      .pipe(tap((items) => this.wishlistStore.setItems(items)));
+  }
+
+  /**
+   * Remove a product from the wishlist
+   */
+  removeItem(productId: string): Observable<WishlistItem[]> {
+    if (!this.authStore.isAuthenticated()) {
+      this.guestWishlistStore.removeItem(productId);
+      return of(this.guestWishlistStore.getItemsValue());
+    }
+
+    return this.http
+      .delete<WishlistItem[]>(`${this.apiUrl}/${productId}`)
+      .pipe(tap((items) => this.wishlistStore.setItems(items)));
+  }
+
+  /**
+   * Add the product if it isn't saved yet, remove it otherwise
+   * Refused until the signed-in user's wishlist is loaded, since whether the
+   * product is saved isn't known before
+   */
+  toggleItem(product: Product): Observable<WishlistItem[]> {
+    if (this.authStore.isAuthenticated() && !this.wishlistStore.isLoaded()) {
+      return throwError(
+        (): ApiError => ({
+          message: 'Your wishlist is still loading. Please try again.',
+        })
+      );
+    }
+    const saved = this.currentItems().some(
+      (item) => item.productId === product.id
+    );
+    return saved ? this.removeItem(product.id) : this.addItem(product);
+  }
+
+  /**
+   * Put a saved product in the cart (quantity 1) and drop it from the wishlist
+   * The wishlist is only changed once the cart accepted the product
+   */
+  moveToCart(item: WishlistItem): Observable<WishlistItem[]> {
+    if (!this.authStore.isAuthenticated()) {
+      // The API checks stock for signed-in users; guests are checked here
+      const quantityInCart = this.cartService.getQuantityInCart(item.productId);
+      if (getAddableQuantity(item.stockQuantity, quantityInCart) < 1) {
+        return throwError(
+          (): ApiError => ({
+            message: `Your cart already has all available units of ${item.productName}.`,
+          })
+        );
+      }
+      this.guestCartStore.addItem(this.toProduct(item));
+      return this.removeItem(item.productId);
+    }
+
+    return this.cartService
+      .addToCart({ productId: item.productId, quantity: 1 })
+      .pipe(switchMap(() => this.removeItem(item.productId)));
+  }
+
+  /**
+   * Move a cart item to the wishlist
+   * The cart item is only removed once the wishlist accepted the product
+   */
+  saveForLater(cartItem: CartItem): Observable<WishlistItem[]> {
+    const product: Product = {
+      id: cartItem.productId,
+      name: cartItem.productName,
+      price: cartItem.unitPrice,
+      mainImageUrl: cartItem.imageUrl,
+      stockQuantity: cartItem.stockQuantity,
+    };
+
+    if (!this.authStore.isAuthenticated()) {
+      this.guestCartStore.removeItem(cartItem.productId);
+      return this.addItem(product);
+    }
+
+    return this.addItem(product).pipe(
+      switchMap((items) =>
+        this.cartService.removeCartItem(cartItem.id).pipe(map(() => items))
+      )
+    );
+  }
+
+  /**
+   * Move the guest wishlist into the current user's wishlist
+   * Items that fail stay in the guest wishlist for the next login;
+   * returns the number of merged items
+   */
+  mergeGuestWishlist(): Observable<number> {
+    const guestItems = this.guestWishlistStore.getItemsValue();
+    if (guestItems.length === 0) {
+      return of(0);
+    }
+
+    // Oldest first so the server keeps the guest's order
+    return from([...guestItems].reverse()).pipe(
+      concatMap((item) =>
+        this.addItem(this.toProduct(item)).pipe(
+          tap(() => this.guestWishlistStore.removeItem(item.productId)),
+          map(() => 1),
+          catchError((error) => {
+            console.error(`Error merging ${item.productName}:`, error);
+            return of(0);
+          })
+        )
+      ),
+      reduce((count, merged) => count + merged, 0)
+    );
+  }
+
+  private currentItems(): WishlistItem[] {
+    return this.authStore.isAuthenticated()
+      ? this.wishlistStore.getItemsValue()
+      : this.guestWishlistStore.getItemsValue();
+  }
+
+  private toProduct(item: WishlistItem): Product {
+    return {
+      id: item.productId,
+      name: item.productName,
+      price: item.price,
+      mainImageUrl: item.imageUrl,
+      stockQuantity: item.stockQuantity,
+    };
+  }
+}
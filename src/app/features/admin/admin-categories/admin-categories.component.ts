@@ -1,14 +1,15 @@
-import { Component, OnDestroy, OnInit } from '@angular/core';
+import { Component, OnInit } from '@angular/core';
 import { FormBuilder, FormGroup, Validators } from '@angular/forms';
 import { CategoryService } from '../../../core/services/category.service';
-import { Category } from '../../../shared/models/category.model';
+import { NotificationService } from '../../../core/services/notification.service';
+import { ApiError, Category } from '../../../shared/models';
 
 @Component({
   selector: 'app-admin-categories',
   templateUrl: './admin-categories.component.html',
   styleUrls: ['./admin-categories.component.css'],
 })
-export class AdminCategoriesComponent implements OnInit, OnDestroy {
+export class AdminCategoriesComponent implements OnInit {
   // Data
   categories: Category[] = [];
   selectedCategory: Category | null = null;
@@ -18,11 +19,9 @@ export class AdminCategoriesComponent implements OnInit, OnDestroy {
   isSaving = false;
   showCategoryModal = false;
   showDeleteModal = false;
-  timeoutIds: number[] = [];
 
-  // Messages
+  // Load error
   errorMessage = '';
-  successMessage = '';
 
   // Form
   categoryForm: FormGroup;
@@ -30,6 +29,7 @@ export class AdminCategoriesComponent implements OnInit, OnDestroy {
 
   constructor(
     private categoryService: CategoryService,
+    private notificationService: NotificationService,
     private fb: FormBuilder
   ) {
     // Initialize form
@@ -38,11 +38,6 @@ export class AdminCategoriesComponent implements OnInit, OnDestroy {
       description: [''],
     });
   }
-  ngOnDestroy(): void {
-    this.timeoutIds.forEach((id) => clearTimeout(id));
-    this.timeoutIds = [];
-  }
-
   ngOnInit(): void {
     this.loadCategories();
   }
@@ -59,9 +54,9 @@ export class AdminCategoriesComponent implements OnInit, OnDestroy {
         this.categories = categories;
         this.isLoading = false;
       },
-      error: (error) => {
+      error: (error: ApiError) => {
         console.error('Error loading categories:', error);
-        this.errorMessage = 'Failed to load categories. Please try again.';
+        this.errorMessage = `Failed to load categories. ${error.message}`;
         this.isLoading = false;
       },
     });
@@ -75,7 +70,6 @@ export class AdminCategoriesComponent implements OnInit, OnDestroy {
     this.selectedCategory = null;
     this.categoryForm.reset();
     this.showCategoryModal = true;
-    this.clearMessages();
   }
 
   /**
@@ -89,7 +83,6 @@ export class AdminCategoriesComponent implements OnInit, OnDestroy {
       description: category.description,
     });
     this.showCategoryModal = true;
-    this.clearMessages();
   }
 
   /**
@@ -113,7 +106,6 @@ export class AdminCategoriesComponent implements OnInit, OnDestroy {
     }
 
     this.isSaving = true;
-    this.errorMessage = '';
 
     const categoryData = {
       name: this.categoryForm.value.name.trim(),
@@ -126,17 +118,16 @@ export class AdminCategoriesComponent implements OnInit, OnDestroy {
         .updateCategory(this.selectedCategory.id, categoryData)
         .subscribe({
           next: () => {
-            this.successMessage = 'Category updated successfully!';
+            this.notificationService.success('Category updated successfully!');
             this.closeCategoryModal();
             this.loadCategories();
             this.isSaving = false;
-            this.clearMessagesAfterDelay();
           },
-          error: (error) => {
+          error: (error: ApiError) => {
             console.error('Error updating category:', error);
-            this.errorMessage =
-              error.error?.message ||
-              'Failed to update category. Please try again.';
+            this.notificationService.error(
+              `Failed to update category. ${error.message}`
+            );
             this.isSaving = false;
           },
         });
@@ -144,21 +135,18 @@ export class AdminCategoriesComponent implements OnInit, OnDestroy {
       // Create new category
       this.categoryService.createCategory(categoryData).subscribe({
         next: () => {
-          this.successMessage = 'Category created successfully!';
+          this.notificationService.success('Category created successfully!');
           this.closeCategoryModal();
           this.loadCategories();
           this.isSaving = false;
-          this.clearMessagesAfterDelay();
         },
-        error: (error) => {
+        error: (error: ApiError) => {
           console.error('Error creating category:', error);
-          if (error.status === 409) {
-            this.errorMessage = 'A category with this name already exists.';
-          } else {
-            this.errorMessage =
-              error.error?.message ||
-              'Failed to create category. Please try again.';
-          }
+          this.notificationService.error(
+            error.status === 409
+              ? 'A category with this name already exists.'
+              : `Failed to create category. ${error.message}`
+          );
           this.isSaving = false;
         },
       });
@@ -171,7 +159,6 @@ export class AdminCategoriesComponent implements OnInit, OnDestroy {
   openDeleteModal(category: Category): void {
     this.selectedCategory = category;
     this.showDeleteModal = true;
-    this.clearMessages();
   }
 
   /**
@@ -189,50 +176,27 @@ export class AdminCategoriesComponent implements OnInit, OnDestroy {
     if (!this.selectedCategory) return;
 
     this.isSaving = true;
-    this.errorMessage = '';
 
     this.categoryService.deleteCategory(this.selectedCategory.id).subscribe({
       next: () => {
-        this.successMessage = 'Category deleted successfully!';
+        this.notificationService.success('Category deleted successfully!');
         this.closeDeleteModal();
         this.loadCategories();
         this.isSaving = false;
-        this.clearMessagesAfterDelay();
       },
-      error: (error) => {
+      error: (error: ApiError) => {
         console.error('Error deleting category:', error);
-        if (error.status === 400) {
-          this.errorMessage =
-            'Cannot delete this category. It may be in use by products.';
-        } else {
-          this.errorMessage =
-            error.error?.message ||
-            'Failed to delete category. Please try again.';
-        }
+        this.notificationService.error(
+          error.status === 400
+            ? 'Cannot delete this category. It may be in use by products.'
+            : `Failed to delete category. ${error.message}`
+        );
         this.closeDeleteModal();
         this.isSaving = false;
       },
     });
   }
 
-  /**
-   * Clear all messages
-   */
-  clearMessages(): void {
-    this.errorMessage = '';
-    this.successMessage = '';
-  }
-
-  /**
-   * Clear messages after 3 seconds
-   */
-  private clearMessagesAfterDelay(): void {
-    const timeoutId = window.setTimeout(() => {
-      this.clearMessages();
-    }, 3000);
-    this.timeoutIds.push(timeoutId);
-  }
-
   /**
    * Check if form field has error
    */
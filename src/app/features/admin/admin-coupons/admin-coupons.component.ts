@@ -0,0 +1,347 @@
+import { Component, OnInit } from '@angular/core';
+import { formatDate } from '@angular/common';
+import { FormBuilder, FormGroup, Validators } from '@angular/forms';
+import { Observable } from 'rxjs';
+import { CouponService } from 'src/app/core/services/coupon.service';
+import { NotificationService } from 'src/app/core/services/notification.service';
+import {
+  ApiError,
+  Coupon,
+  CouponDiscountType,
+  CouponQueryParams,
+  CreateCouponRequest,
+  MAX_COUPON_CODE_LENGTH,
+  PaginatedResult,
+} from 'src/app/shared/models';
+
+type StatusFilter = 'all' | 'active' | 'inactive';
+
+/**
+ * Admin Coupons Component
+ * Create, edit, switch off and delete the promo codes customers can apply
+ */
+@Component({
+  selector: 'app-admin-coupons',
+  templateUrl: './admin-coupons.component.html',
+  styleUrls: ['./admin-coupons.component.css'],
+})
+export class AdminCouponsComponent implements OnInit {
+  coupons: Coupon[] = [];
+  selectedCoupon: Coupon | null = null;
+
+  // UI States
+  isLoading = false;
+  isSaving = false;
+  showCouponModal = false;
+  showDeleteModal = false;
+  errorMessage = '';
+
+  // Filters & Pagination
+  searchTerm = '';
+  statusFilter: StatusFilter = 'all';
+  currentPage = 1;
+  pageSize = 10;
+  totalPages = 0;
+  totalItems = 0;
+
+  // Coupons with a pending activate/deactivate request
+  togglingIds = new Set<string>();
+
+  // Form
+  couponForm: FormGroup;
+  isEditMode = false;
+
+  readonly maxCodeLength = MAX_COUPON_CODE_LENGTH;
+
+  Math = Math;
+
+  constructor(
+    private couponService: CouponService,
+    private notificationService: NotificationService,
+    private fb: FormBuilder
+  ) {
+    this.couponForm = this.fb.group({
+      code: [
+        '',
+        [
+          Validators.required,
+          Validators.maxLength(MAX_COUPON_CODE_LENGTH),
+          Validators.pattern(/^[A-Za-z0-9_-]+$/),
+        ],
+      ],
+      description: [''],
+      discountType: ['percentage' as CouponDiscountType, Validators.required],
+      discountValue: [null],
+      minimumSpend: [null, Validators.min(0)],
+      expiresAt: [''],
+      isActive: [true],
+    });
+
+    // A percentage can't go above 100
+    this.couponForm
+      .get('discountType')
+      ?.valueChanges.subscribe((type: CouponDiscountType) =>
+        this.setDiscountValueValidators(type)
+      );
+    this.setDiscountValueValidators('percentage');
+  }
+
+  ngOnInit(): void {
+    this.loadCoupons();
+  }
+
+  /**
+   * Load coupons for the current page and filters
+   */
+  loadCoupons(): void {
+    this.isLoading = true;
+    this.errorMessage = '';
+
+    const params: CouponQueryParams = {
+      pageNumber: this.currentPage,
+      pageSize: this.pageSize,
+    };
+    if (this.searchTerm.trim()) {
+      params.searchTerm = this.searchTerm.trim();
+    }
+    if (this.statusFilter !== 'all') {
+      params.isActive = this.statusFilter === 'active';
+    }
+
+    this.couponService.getCoupons(params).subscribe({
+      next: (result: PaginatedResult<Coupon>) => {
+        this.coupons = result.items;
+        this.totalPages = result.totalPages;
+        this.totalItems = result.totalItems;
+        this.isLoading = false;
+      },
+      error: (error: ApiError) => {
+        console.error('Error loading coupons:', error);
+        this.errorMessage = `Failed to load coupons. ${error.message}`;
+        this.isLoading = false;
+      },
+    });
+  }
+
+  /**
+   * Run search / filter from the first page
+   */
+  onSearch(): void {
+    this.currentPage = 1;
+    this.loadCoupons();
+  }
+
+  clearSearch(): void {
+    this.searchTerm = '';
+    this.onSearch();
+  }
+
+  isExpired(coupon: Coupon): boolean {
+    return this.couponService.isExpired(coupon);
+  }
+
+  /**
+   * Open modal for creating new coupon
+   */
+  openCreateModal(): void {
+    this.isEditMode = false;
+    this.selectedCoupon = null;
+    this.couponForm.reset({ discountType: 'percentage', isActive: true });
+    this.showCouponModal = true;
+  }
+
+  /**
+   * Open modal for editing existing coupon
+   */
+  openEditModal(coupon: Coupon): void {
+    this.isEditMode = true;
+    this.selectedCoupon = coupon;
+    this.couponForm.reset({
+      code: coupon.code,
+      description: coupon.description ?? '',
+      discountType: coupon.discountType,
+      discountValue: coupon.discountValue,
+      minimumSpend: coupon.minimumSpend ?? null,
+      expiresAt: coupon.expiresAt
+        ? formatDate(coupon.expiresAt, 'yyyy-MM-dd', 'en-US')
+        : '',
+      isActive: coupon.isActive,
+    });
+    this.showCouponModal = true;
+  }
+
+  closeCouponModal(): void {
+    this.showCouponModal = false;
+    this.selectedCoupon = null;
+    this.couponForm.reset({ discountType: 'percentage', isActive: true });
+  }
+
+  /**
+   * Save coupon (create or update)
+   */
+  saveCoupon(): void {
+    if (this.couponForm.invalid) {
+      Object.keys(this.couponForm.controls).forEach((key) => {
+        this.couponForm.get(key)?.markAsTouched();
+      });
+      return;
+    }
+
+    this.isSaving = true;
+    const request = this.buildRequest();
+
+    const request$: Observable<unknown> =
+      this.isEditMode && this.selectedCoupon
+        ? this.couponService.updateCoupon(this.selectedCoupon.id, request)
+        : this.couponService.createCoupon(request);
+
+    request$.subscribe({
+      next: () => {
+        this.notificationService.success(
+          this.isEditMode
+            ? `Coupon ${request.code} updated.`
+            : `Coupon ${request.code} created.`
+        );
+        this.isSaving = false;
+        this.closeCouponModal();
+        this.loadCoupons();
+      },
+      error: (error: ApiError) => {
+        console.error('Error saving coupon:', error);
+        this.notificationService.error(
+          error.status === 409
+            ? `A coupon with the code ${request.code} already exists.`
+            : `Failed to save coupon. ${error.message}`
+        );
+        this.isSaving = false;
+      },
+    });
+  }
+
+  /**
+   * Switch a coupon off (or on again) without opening the form
+   */
+  toggleActive(coupon: Coupon): void {
+    if (this.togglingIds.has(coupon.id)) return;
+
+    const isActive = !coupon.isActive;
+    this.togglingIds.add(coupon.id);
+
+    this.couponService
+      .updateCoupon(coupon.id, { ...this.toRequest(coupon), isActive })
+      .subscribe({
+        next: () => {
+          this.togglingIds.delete(coupon.id);
+          this.coupons = this.coupons.map((c) =>
+            c.id === coupon.id ? { ...c, isActive } : c
+          );
+          this.notificationService.success(
+            isActive
+              ? `Coupon ${coupon.code} activated.`
+              : `Coupon ${coupon.code} deactivated.`
+          );
+        },
+        error: (error: ApiError) => {
+          this.togglingIds.delete(coupon.id);
+          console.error('Error updating coupon:', error);
+          this.notificationService.error(
+            `Failed to update coupon. ${error.message}`
+          );
+        },
+      });
+  }
+
+  openDeleteModal(coupon: Coupon): void {
+    this.selectedCoupon = coupon;
+    this.showDeleteModal = true;
+  }
+
+  closeDeleteModal(): void {
+    this.showDeleteModal = false;
+    this.selectedCoupon = null;
+  }
+
+  deleteCoupon(): void {
+    if (!this.selectedCoupon) return;
+
+    const coupon = this.selectedCoupon;
+    this.isSaving = true;
+
+    this.couponService.deleteCoupon(coupon.id).subscribe({
+      next: () => {
+        this.notificationService.success(`Coupon ${coupon.code} deleted.`);
+        this.isSaving = false;
+        this.closeDeleteModal();
+        this.loadCoupons();
+      },
+      error: (error: ApiError) => {
+        console.error('Error deleting coupon:', error);
+        this.notificationService.error(
+          `Failed to delete coupon. ${error.message}`
+        );
+        this.isSaving = false;
+        this.closeDeleteModal();
+      },
+    });
+  }
+
+  /**
+   * Check if form field has error
+   */
+  hasError(fieldName: string, errorType: string): boolean {
+    const field = this.couponForm.get(fieldName);
+    return !!(field && field.hasError(errorType) && field.touched);
+  }
+
+  /**
+   * Pagination methods
+   */
+  goToPage(page: number): void {
+    if (page >= 1 && page <= this.totalPages) {
+      this.currentPage = page;
+      this.loadCoupons();
+    }
+  }
+
+  get pages(): number[] {
+    return Array.from({ length: this.totalPages }, (_, i) => i + 1);
+  }
+
+  private setDiscountValueValidators(type: CouponDiscountType): void {
+    const control = this.couponForm.get('discountValue');
+    control?.setValidators(
+      type === 'percentage'
+        ? [Validators.required, Validators.min(0.01), Validators.max(100)]
+        : [Validators.required, Validators.min(0.01)]
+    );
+    control?.updateValueAndValidity({ emitEvent: false });
+  }
+
+  private buildRequest(): CreateCouponRequest {
+    const value = this.couponForm.value;
+    return {
+      code: value.code.trim().toUpperCase(),
+      description: value.description?.trim() || undefined,
+      discountType: value.discountType,
+      discountValue: Number(value.discountValue),
+      minimumSpend: value.minimumSpend ? Number(value.minimumSpend) : undefined,
+      // The code stays valid until the end of the chosen day
+      expiresAt: value.expiresAt
+        ? new Date(`${value.expiresAt}T23:59:59`).toISOString()
+        : undefined,
+      isActive: !!value.isActive,
+    };
+  }
+
+  private toRequest(coupon: Coupon): CreateCouponRequest {
+    return {
+      code: coupon.code,
+      description: coupon.description,
+      discountType: coupon.discountType,
+      discountValue: coupon.discountValue,
+      minimumSpend: coupon.minimumSpend,
+      expiresAt: coupon.expiresAt,
+      isActive: coupon.isActive,
+    };
+  }
+}
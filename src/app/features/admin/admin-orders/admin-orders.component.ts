@@ -1,14 +1,32 @@
 import { Component, OnDestroy, OnInit } from '@angular/core';
-import { Router } from '@angular/router';
+import { ActivatedRoute, ParamMap, Params, Router } from '@angular/router';
+import { EMPTY, Observable, Subject, Subscription, merge } from 'rxjs';
+import { catchError, switchMap, tap } from 'rxjs/operators';
 import { OrderService } from 'src/app/core/services/order.service';
+import { NotificationService } from 'src/app/core/services/notification.service';
 import {
+  getNextOrderStatuses,
+  isFinalOrderStatus,
+  orderStatusRequiresReason,
+} from 'src/app/core/config/order-workflow';
+import {
+  ApiError,
   Order,
   OrderStatus,
   PaymentMethod,
   PaginatedResult,
+  OrderQueryParams,
   UpdateOrderStatusRequest,
 } from 'src/app/shared/models';
 
+const DEFAULT_SORT_BY = 'orderDate';
+const SORT_OPTIONS = ['orderDate', 'totalAmount'];
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Admin Orders Component
+ * Filter, search and sort state lives in the URL next to `?tab=orders`
+ */
 @Component({
   selector: 'app-admin-orders',
   templateUrl: './admin-orders.component.html',
@@ -18,8 +36,6 @@ export class AdminOrdersComponent implements OnInit, OnDestroy {
   orders: Order[] = [];
   isLoading = false;
   errorMessage = '';
-  successMessage = '';
-  timeoutIds: number[] = [];
 
   // Pagination
   currentPage = 1;
@@ -27,52 +43,111 @@ export class AdminOrdersComponent implements OnInit, OnDestroy {
   totalPages = 0;
   totalItems = 0;
 
+  // Search, filters and sorting
+  searchTerm = '';
+  statusFilter: OrderStatus | null = null;
+  paymentMethodFilter: PaymentMethod | null = null;
+  fromDate = '';
+  toDate = '';
+  sortBy = DEFAULT_SORT_BY;
+  isDescending = true;
+
+  readonly statusOptions = [
+    OrderStatus.Pending,
+    OrderStatus.Processing,
+    OrderStatus.Shipped,
+    OrderStatus.Completed,
+    OrderStatus.Cancelled,
+  ];
+  readonly paymentMethodOptions = [
+    PaymentMethod.CashOnDelivery,
+    PaymentMethod.PayPal,
+    PaymentMethod.BankTransfer,
+    PaymentMethod.CreditCard,
+  ];
+
   // Modal
   showStatusModal = false;
   selectedOrder: Order | null = null;
-  selectedStatus: OrderStatus = OrderStatus.Pending;
+  nextStatuses: OrderStatus[] = [];
+  selectedStatus: OrderStatus | null = null;
+  statusReason = '';
 
   // Enums for template
   OrderStatus = OrderStatus;
   PaymentMethod = PaymentMethod;
   Math = Math;
 
-  constructor(private orderService: OrderService, private router: Router) {}
+  private subscriptions = new Subscription();
+  private reload$ = new Subject<void>();
+
+  constructor(
+    private orderService: OrderService,
+    private notificationService: NotificationService,
+    private route: ActivatedRoute,
+    private router: Router
+  ) {}
 
   ngOnInit(): void {
-    this.loadOrders();
+    // switchMap drops the response of a query that was replaced meanwhile
+    this.subscriptions.add(
+      merge(
+        this.route.queryParamMap.pipe(
+          tap((params) => this.readQueryParams(params))
+        ),
+        this.reload$
+      )
+        .pipe(switchMap(() => this.requestOrders()))
+        .subscribe()
+    );
   }
 
   ngOnDestroy(): void {
-    this.timeoutIds.forEach((id) => clearTimeout(id));
-    this.timeoutIds = [];
+    this.subscriptions.unsubscribe();
   }
 
   /**
-   * Load all orders (admin view)
+   * Load all orders (admin view) with the current filters
    */
   loadOrders(): void {
-    this.isLoading = true;
-    this.errorMessage = '';
+    this.reload$.next();
+  }
 
-    this.orderService
-      .getAllOrders({
-        pageNumber: this.currentPage,
-        pageSize: this.pageSize,
-      })
-      .subscribe({
-        next: (result: PaginatedResult<Order>) => {
-          this.orders = result.items;
-          this.totalPages = result.totalPages;
-          this.totalItems = result.totalItems;
-          this.isLoading = false;
-        },
-        error: (error) => {
-          console.error('Error loading orders:', error);
-          this.errorMessage = 'Failed to load orders. Please try again.';
-          this.isLoading = false;
-        },
-      });
+  /**
+   * Apply search, filters or sorting; always back to page 1
+   */
+  applyFilters(): void {
+    if (this.fromDate && this.toDate && this.fromDate > this.toDate) {
+      [this.fromDate, this.toDate] = [this.toDate, this.fromDate];
+    }
+    this.updateQuery({ page: 1 });
+  }
+
+  toggleSortDirection(): void {
+    this.isDescending = !this.isDescending;
+    this.updateQuery({ page: 1 });
+  }
+
+  /**
+   * Reset search and filters, keeping the sort order
+   */
+  clearFilters(): void {
+    this.searchTerm = '';
+    this.statusFilter = null;
+    this.paymentMethodFilter = null;
+    this.fromDate = '';
+    this.toDate = '';
+    this.updateQuery({ page: 1 });
+  }
+
+  get hasActiveFilters(): boolean {
+    return (
+      !!this.searchTerm ||
+      this.statusFilter !== null ||
+      this.paymentMethodFilter !== null ||
+      !!this.fromDate ||
+      !!this.toDate
+    );
   }
 
   /**
@@ -80,10 +155,10 @@ export class AdminOrdersComponent implements OnInit, OnDestroy {
    */
   openStatusModal(order: Order): void {
     this.selectedOrder = order;
-    this.selectedStatus = order.status;
+    this.nextStatuses = getNextOrderStatuses(order.status);
+    this.selectedStatus = this.nextStatuses[0] ?? null;
+    this.statusReason = '';
     this.showStatusModal = true;
-    this.errorMessage = '';
-    this.successMessage = '';
   }
 
   /**
@@ -92,44 +167,60 @@ export class AdminOrdersComponent implements OnInit, OnDestroy {
   closeStatusModal(): void {
     this.showStatusModal = false;
     this.selectedOrder = null;
+    this.nextStatuses = [];
+  }
+
+  /**
+   * Completed and cancelled orders cannot change anymore
+   */
+  isFinalStatus(status: OrderStatus): boolean {
+    return isFinalOrderStatus(status);
+  }
+
+  get isReasonRequired(): boolean {
+    return (
+      this.selectedStatus !== null &&
+      orderStatusRequiresReason(this.selectedStatus)
+    );
+  }
+
+  get canSubmitStatus(): boolean {
+    return (
+      this.selectedStatus !== null &&
+      (!this.isReasonRequired || !!this.statusReason.trim())
+    );
   }
 
   /**
    * Update order status
    */
   updateStatus(): void {
-    if (!this.selectedOrder) return;
+    if (!this.selectedOrder || this.selectedStatus === null) return;
 
     this.isLoading = true;
-    this.errorMessage = '';
 
     // Ensure we send the numeric value of the enum
     const updateRequest: UpdateOrderStatusRequest = {
-      status: this.selectedStatus
+      status: this.selectedStatus,
+      reason: this.statusReason.trim() || undefined,
     };
 
     this.orderService
-      .updateOrderStatus(this.selectedOrder.id, updateRequest)
+      .updateOrderStatus(this.selectedOrder, updateRequest)
       .subscribe({
         next: () => {
-          this.successMessage = 'Order status updated successfully!';
+          this.notificationService.success(
+            'Order status updated successfully!'
+          );
           this.closeStatusModal();
           this.loadOrders(); // Reload to get updated data
           this.isLoading = false;
-
-          // Clear success message after 3 seconds
-          const timeoutId = window.setTimeout(() => {
-            this.successMessage = '';
-          }, 3000);
-          this.timeoutIds.push(timeoutId);
         },
-        error: (error) => {
+        error: (error: ApiError) => {
           console.error('Error updating order status:', error);
-          console.error('Full error object:', JSON.stringify(error, null, 2));
-          this.errorMessage =
-            error.error?.title ||
-            error.error?.message ||
-            'Failed to update order status. Please try again.';
+          this.notificationService.error(
+            `Failed to update order status. ${error.message}`
+          );
           this.isLoading = false;
         },
       });
@@ -205,26 +296,122 @@ export class AdminOrdersComponent implements OnInit, OnDestroy {
    */
   goToPage(page: number): void {
     if (page >= 1 && page <= this.totalPages) {
-      this.currentPage = page;
-      this.loadOrders();
+      this.updateQuery({ page });
     }
   }
 
   nextPage(): void {
     if (this.currentPage < this.totalPages) {
-      this.currentPage++;
-      this.loadOrders();
+      this.updateQuery({ page: this.currentPage + 1 });
     }
   }
 
   previousPage(): void {
     if (this.currentPage > 1) {
-      this.currentPage--;
-      this.loadOrders();
+      this.updateQuery({ page: this.currentPage - 1 });
     }
   }
 
   get pages(): number[] {
     return Array.from({ length: this.totalPages }, (_, i) => i + 1);
   }
+
+  private requestOrders(): Observable<PaginatedResult<Order>> {
+    this.isLoading = true;
+    this.errorMessage = '';
+
+    // Map frontend sort values to backend API field names
+    const sortFieldMap: { [key: string]: string } = {
+      orderDate: 'OrderDate',
+      totalAmount: 'TotalAmount',
+    };
+
+    const params: OrderQueryParams = {
+      pageNumber: this.currentPage,
+      pageSize: this.pageSize,
+      searchTerm: this.searchTerm || undefined,
+      sortBy: sortFieldMap[this.sortBy],
+      isDescending: this.isDescending,
+      status: this.statusFilter ?? undefined,
+      paymentMethod: this.paymentMethodFilter ?? undefined,
+      fromDate: this.fromDate || undefined,
+      toDate: this.toDate || undefined,
+    };
+
+    return this.orderService.getAllOrders(params).pipe(
+      tap((result: PaginatedResult<Order>) => {
+        this.orders = result.items;
+        this.totalPages = result.totalPages;
+        this.totalItems = result.totalItems;
+        this.isLoading = false;
+      }),
+      catchError((error: ApiError) => {
+        console.error('Error loading orders:', error);
+        this.errorMessage = `Failed to load orders. ${error.message}`;
+        this.isLoading = false;
+        return EMPTY;
+      })
+    );
+  }
+
+  /**
+   * Write the current list state to the URL
+   * Default values are left out to keep shared links short
+   */
+  private updateQuery(overrides: { page?: number } = {}): void {
+    const page = overrides.page ?? this.currentPage;
+    const queryParams: Params = {
+      tab: 'orders',
+      page: page > 1 ? page : null,
+      search: this.searchTerm.trim() || null,
+      status: this.statusFilter,
+      payment: this.paymentMethodFilter,
+      from: this.fromDate || null,
+      to: this.toDate || null,
+      sortBy: this.sortBy !== DEFAULT_SORT_BY ? this.sortBy : null,
+      order: this.isDescending ? null : 'asc',
+    };
+
+    this.router.navigate([], {
+      relativeTo: this.route,
+      queryParams,
+    });
+  }
+
+  /**
+   * Read list state from the URL, falling back to defaults for bad values
+   */
+  private readQueryParams(params: ParamMap): void {
+    const page = Number(params.get('page'));
+    this.currentPage = Number.isInteger(page) && page > 1 ? page : 1;
+    this.searchTerm = params.get('search') ?? '';
+    this.statusFilter = this.readOption(params, 'status', this.statusOptions);
+    this.paymentMethodFilter = this.readOption(
+      params,
+      'payment',
+      this.paymentMethodOptions
+    );
+    this.fromDate = this.readDate(params, 'from');
+    this.toDate = this.readDate(params, 'to');
+    const sortBy = params.get('sortBy');
+    this.sortBy =
+      sortBy && SORT_OPTIONS.includes(sortBy) ? sortBy : DEFAULT_SORT_BY;
+    this.isDescending = params.get('order') !== 'asc';
+  }
+
+  private readOption<T extends number>(
+    params: ParamMap,
+    key: string,
+    options: readonly T[]
+  ): T | null {
+    const value = params.get(key);
+    if (value === null || value.trim() === '') return null;
+
+    return options.find((option) => option === Number(value)) ?? null;
+  }
+
+  private readDate(params: ParamMap, key: string): string {
+    const value = params.get(key) ?? '';
+    return DATE_PATTERN.test(value) ? value : '';
+  }
 }
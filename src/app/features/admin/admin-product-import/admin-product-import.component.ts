@@ -0,0 +1,193 @@
+import { Component, EventEmitter, OnDestroy, Output } from '@angular/core';
+import { Subscription, forkJoin } from 'rxjs';
+import { CategoryService } from 'src/app/core/services/category.service';
+import { NotificationService } from 'src/app/core/services/notification.service';
+import { ProductTransferService } from 'src/app/core/services/product-transfer.service';
+import {
+  ApiError,
+  ProductColumnMapping,
+  ProductImportAction,
+  ProductImportField,
+  ProductImportProgress,
+  ProductImportRow,
+} from 'src/app/shared/models';
+
+type ImportStep = 'file' | 'mapping' | 'preview' | 'importing' | 'done';
+
+const MAX_CSV_SIZE = 2 * 1024 * 1024; // 2MB
+
+/**
+ * Admin Product Import Component
+ * CSV import wizard: choose a file, map its columns, review a dry run,
+ * then create/update the products with a progress report.
+ */
+@Component({
+  selector: 'app-admin-product-import',
+  templateUrl: './admin-product-import.component.html',
+  styleUrls: ['./admin-product-import.component.css'],
+})
+export class AdminProductImportComponent implements OnDestroy {
+  /** Emits when the wizard closes; true when products were imported */
+  @Output() closed = new EventEmitter<boolean>();
+
+  step: ImportStep = 'file';
+  fileName = '';
+  headers: string[] = [];
+  dataRows: string[][] = [];
+  mapping: ProductColumnMapping | null = null;
+  plan: ProductImportRow[] = [];
+  progress: ProductImportProgress | null = null;
+  isLoading = false;
+
+  readonly fields: { field: ProductImportField; label: string }[] = [
+    { field: 'name', label: 'Name' },
+    { field: 'price', label: 'Price' },
+    { field: 'category', label: 'Category' },
+    { field: 'description', label: 'Description' },
+    { field: 'stock', label: 'Stock' },
+    { field: 'id', label: 'Product ID (to update by id)' },
+  ];
+  private readonly requiredFields: ProductImportField[] = [
+    'name',
+    'price',
+    'category',
+  ];
+
+  private importSubscription: Subscription | null = null;
+
+  constructor(
+    private productTransferService: ProductTransferService,
+    private categoryService: CategoryService,
+    private notificationService: NotificationService
+  ) {}
+
+  ngOnDestroy(): void {
+    this.importSubscription?.unsubscribe();
+  }
+
+  onFileSelect(event: Event): void {
+    const input = event.target as HTMLInputElement;
+    const file = input.files?.[0];
+    input.value = '';
+    if (!file) return;
+
+    if (file.size > MAX_CSV_SIZE) {
+      this.notificationService.warning('File too large. Max size: 2MB');
+      return;
+    }
+
+    file.text().then(
+      (text) => {
+        const [headers, ...rows] = this.productTransferService.parseCsv(text);
+        if (!headers || rows.length === 0) {
+          this.notificationService.warning(
+            'The file needs a header row and at least one product.'
+          );
+          return;
+        }
+        this.fileName = file.name;
+        this.headers = headers;
+        this.dataRows = rows;
+        this.mapping = this.productTransferService.guessMapping(headers);
+        this.step = 'mapping';
+      },
+      () => this.notificationService.error(`${file.name} could not be read.`)
+    );
+  }
+
+  isRequired(field: ProductImportField): boolean {
+    return this.requiredFields.includes(field);
+  }
+
+  get isMappingComplete(): boolean {
+    const mapping = this.mapping;
+    return (
+      !!mapping && this.requiredFields.every((field) => mapping[field] !== null)
+    );
+  }
+
+  /**
+   * Load categories and the current catalog, then build the dry run
+   */
+  preview(): void {
+    const mapping = this.mapping;
+    if (!mapping || !this.isMappingComplete) return;
+
+    this.isLoading = true;
+    forkJoin([
+      this.categoryService.getCategories(),
+      this.productTransferService.getCatalog(),
+    ]).subscribe({
+      next: ([categories, catalog]) => {
+        this.plan = this.productTransferService.planImport(
+          this.dataRows,
+          mapping,
+          categories,
+          catalog
+        );
+        this.step = 'preview';
+        this.isLoading = false;
+      },
+      error: (error: ApiError) => {
+        this.notificationService.error(
+          `Failed to prepare the import. ${error.message}`
+        );
+        this.isLoading = false;
+      },
+    });
+  }
+
+  count(action: ProductImportAction): number {
+    return this.plan.filter((row) => row.action === action).length;
+  }
+
+  get importableCount(): number {
+    return this.count('create') + this.count('update');
+  }
+
+  get progressPercent(): number {
+    const progress = this.progress;
+    return progress && progress.total
+      ? Math.round((100 * progress.completed) / progress.total)
+      : 0;
+  }
+
+  runImport(): void {
+    if (this.importableCount === 0) return;
+
+    this.step = 'importing';
+    this.importSubscription = this.productTransferService
+      .runImport(this.plan)
+      .subscribe({
+        next: (progress) => (this.progress = progress),
+        complete: () => {
+          this.importSubscription = null;
+          this.step = 'done';
+          const failed = this.progress?.failures.length ?? 0;
+          if (failed === 0) {
+            this.notificationService.success(
+              `${this.importableCount} product(s) imported.`
+            );
+          } else {
+            this.notificationService.warning(
+              `Import finished with ${failed} failure(s).`
+            );
+          }
+        },
+      });
+  }
+
+  back(): void {
+    if (this.step === 'preview') {
+      this.step = 'mapping';
+    } else if (this.step === 'mapping') {
+      this.step = 'file';
+    }
+  }
+
+  close(): void {
+    // Stop sending the remaining rows; finished ones stay imported
+    this.importSubscription?.unsubscribe();
+    this.closed.emit(!!this.progress && this.progress.completed > 0);
+  }
+}
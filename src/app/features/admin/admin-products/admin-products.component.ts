@@ -1,26 +1,51 @@
-import { Component, OnInit } from '@angular/core';
+import { Component, OnDestroy, OnInit } from '@angular/core';
 import { FormBuilder, FormGroup, Validators } from '@angular/forms';
+import { Observable, Subscription, from, of } from 'rxjs';
+import { catchError, map, mergeMap, switchMap, toArray } from 'rxjs/operators';
 import { ProductService } from 'src/app/core/services/product.service';
 import { CategoryService } from 'src/app/core/services/category.service';
+import { NotificationService } from 'src/app/core/services/notification.service';
+import { ImageProcessingService } from 'src/app/core/services/image-processing.service';
+import { ProductTransferService } from 'src/app/core/services/product-transfer.service';
 import {
+  ApiError,
   ProductDetail,
+  ProductImage,
   Category,
   CreateProductRequest,
   UpdateProductRequest,
   PaginatedResult,
+  PendingImage,
+  ProcessedImage,
+  ImageProcessingResult,
+  BulkProductAction,
+  BulkProductResult,
+  CatalogExportFormat,
 } from 'src/app/shared/models';
 
+const MAX_UPLOAD_SIZE = 5 * 1024 * 1024; // 5MB, enforced by the API
+const MAX_SOURCE_SIZE = 25 * 1024 * 1024; // Raw photos are shrunk before upload
+const ALLOWED_IMAGE_TYPES = [
+  'image/jpeg',
+  'image/jpg',
+  'image/png',
+  'image/gif',
+  'image/webp',
+];
+const BULK_ACTION_CONCURRENCY = 4;
+const STOCK_VALIDATORS = [Validators.min(0), Validators.pattern(/^\d+$/)];
+
 @Component({
   selector: 'app-admin-products',
   templateUrl: './admin-products.component.html',
   styleUrls: ['./admin-products.component.css'],
 })
-export class AdminProductsComponent implements OnInit {
+export class AdminProductsComponent implements OnInit, OnDestroy {
   products: ProductDetail[] = [];
   categories: Category[] = [];
   isLoading = false;
   errorMessage = '';
-  successMessage = '';
+  unavailableDetailIds = new Set<string>();
 
   // Pagination
   currentPage = 1;
@@ -34,20 +59,47 @@ export class AdminProductsComponent implements OnInit {
   selectedProduct: ProductDetail | null = null;
   productForm: FormGroup;
 
-  // Image upload
-  selectedImages: File[] = [];
-  imagePreviewUrls: string[] = [];
+  // Image upload (processed on a canvas before upload)
+  pendingImages: PendingImage[] = [];
   mainImageIndex: number = 0;
+  isProcessingImages = false;
+
+  // Create upload progress (null when no upload is running)
+  uploadProgress: number | null = null;
+  uploadRetryAttempt = 0;
+  private uploadSubscription: Subscription | null = null;
+
+  // Bulk actions on the selected rows of the current page
+  selectedIds = new Set<string>();
+  showBulkModal = false;
+  bulkAction: BulkProductAction | null = null;
+  bulkCategoryId = '';
+  bulkPricePercent = 0;
+  bulkResults: BulkProductResult[] | null = null;
+  isBulkRunning = false;
+
+  // Catalog import/export
+  showImportWizard = false;
+  isExporting = false;
+
+  // Image management for existing products
+  isUpdatingImages = false;
+  draggedImageIndex: number | null = null;
+  dropTargetIndex: number | null = null;
 
   constructor(
     private productService: ProductService,
     private categoryService: CategoryService,
+    private notificationService: NotificationService,
+    private imageProcessingService: ImageProcessingService,
+    private productTransferService: ProductTransferService,
     private fb: FormBuilder
   ) {
     this.productForm = this.fb.group({
       name: ['', [Validators.required, Validators.minLength(3)]],
       description: [''],
       price: [0, [Validators.required, Validators.min(0.01)]],
+      stockQuantity: [0, [Validators.required, ...STOCK_VALIDATORS]],
       categoryId: ['', Validators.required],
     });
   }
@@ -57,6 +109,11 @@ export class AdminProductsComponent implements OnInit {
     this.loadProducts();
   }
 
+  ngOnDestroy(): void {
+    this.uploadSubscription?.unsubscribe();
+    this.clearPendingImages();
+  }
+
   loadCategories(): void {
     this.categoryService.getCategories().subscribe({
       next: (categories: Category[]) => {
@@ -77,30 +134,35 @@ export class AdminProductsComponent implements OnInit {
         pageNumber: this.currentPage,
         pageSize: this.pageSize,
       })
+      .pipe(
+        switchMap((result) =>
+          this.productService
+            .getProductDetails(result.items.map((product) => product.id))
+            .pipe(map((details) => ({ result, details })))
+        )
+      )
       .subscribe({
-        next: (result) => {
-          const productPromises = result.items.map((product) =>
-            this.productService.getProductById(product.id).toPromise()
+        next: ({ result, details }) => {
+          // Rows whose details failed keep the list data and can be retried
+          this.unavailableDetailIds = new Set(
+            result.items
+              .filter((_, i) => details[i] === null)
+              .map((product) => product.id)
           );
-
-          Promise.all(productPromises)
-            .then((detailedProducts) => {
-              this.products = detailedProducts.filter(
-                (p): p is ProductDetail => p !== undefined
-              );
-              this.totalPages = result.totalPages;
-              this.totalItems = result.totalItems;
-              this.isLoading = false;
-            })
-            .catch((error) => {
-              console.error('Error loading product details:', error);
-              this.errorMessage = 'Failed to load product details.';
-              this.isLoading = false;
-            });
+          // The list row is fresher than a cached detail
+          this.products = result.items.map((product, i) => ({
+            images: [],
+            ...details[i],
+            ...product,
+          }));
+          this.selectedIds.clear();
+          this.totalPages = result.totalPages;
+          this.totalItems = result.totalItems;
+          this.isLoading = false;
         },
-        error: (error: any) => {
+        error: (error: ApiError) => {
           console.error('Error loading products:', error);
-          this.errorMessage = 'Failed to load products.';
+          this.errorMessage = `Failed to load products. ${error.message}`;
           this.isLoading = false;
         },
       });
@@ -108,91 +170,108 @@ export class AdminProductsComponent implements OnInit {
 
   openProductModal(product?: ProductDetail): void {
     this.selectedProduct = product || null;
-    this.clearMessages();
-    this.selectedImages = [];
-    this.imagePreviewUrls = [];
-    this.mainImageIndex = 0;
+    this.clearPendingImages();
+
+    // Stock is required for new products; an edit may leave it empty when
+    // the API doesn't report it, and only sends it once the admin changed it
+    const stockControl = this.productForm.get('stockQuantity');
+    stockControl?.setValidators(
+      product ? STOCK_VALIDATORS : [Validators.required, ...STOCK_VALIDATORS]
+    );
 
     if (product) {
-      this.productForm.patchValue({
+      this.productForm.reset({
         name: product.name,
         description: product.description,
         price: product.price,
+        stockQuantity: product.stockQuantity ?? null,
         categoryId: product.categoryId,
       });
     } else {
-      this.productForm.reset({ price: 0 });
+      this.productForm.reset({ price: 0, stockQuantity: 0 });
     }
 
     this.showProductModal = true;
   }
 
   closeProductModal(): void {
+    if (this.uploadProgress !== null) {
+      this.cancelUpload();
+    }
     this.showProductModal = false;
     this.selectedProduct = null;
     this.productForm.reset();
-    this.selectedImages = [];
-    this.imagePreviewUrls = [];
-    this.mainImageIndex = 0;
+    this.clearPendingImages();
   }
 
   /**
    * Handle image file selection
+   * Images are resized/compressed first; previews follow the selection order
    */
   onImageSelect(event: Event): void {
     const input = event.target as HTMLInputElement;
     if (!input.files || input.files.length === 0) return;
 
-    this.selectedImages = Array.from(input.files);
-    this.imagePreviewUrls = [];
-
-    // Validate images
-    const validImages: File[] = [];
-    const maxSize = 5 * 1024 * 1024; // 5MB
-    const allowedTypes = [
-      'image/jpeg',
-      'image/jpg',
-      'image/png',
-      'image/gif',
-      'image/webp',
-    ];
-
-    for (const file of this.selectedImages) {
-      if (!allowedTypes.includes(file.type)) {
-        this.errorMessage = `Invalid file type: ${file.name}. Allowed: JPG, PNG, GIF, WEBP`;
-        continue;
-      }
-      if (file.size > maxSize) {
-        this.errorMessage = `File too large: ${file.name}. Max size: 5MB`;
-        continue;
-      }
-      validImages.push(file);
-
-      // Create preview URL
-      const reader = new FileReader();
-      reader.onload = (e) => {
-        this.imagePreviewUrls.push(e.target?.result as string);
-      };
-      reader.readAsDataURL(file);
-    }
-
-    this.selectedImages = validImages;
+    const sources = this.filterValidImages(Array.from(input.files));
+    input.value = '';
+    if (sources.length === 0) return;
+
+    this.isProcessingImages = true;
+    this.imageProcessingService.processAll(sources).subscribe((results) => {
+      const images = this.getProcessedImages(results)
+        .map(({ source, image }) => ({
+          source,
+          processed: image,
+          squareCrop: false,
+        }))
+        .filter((image) => this.checkUploadSize(image.processed));
+      this.pendingImages = [...this.pendingImages, ...images];
+      this.isProcessingImages = false;
+    });
+  }
 
-    if (validImages.length === 0) {
-      input.value = '';
-    }
+  /**
+   * Toggle the square crop of a selected image by re-processing its source
+   */
+  toggleSquareCrop(index: number): void {
+    const image = this.pendingImages[index];
+    if (!image) return;
+
+    const squareCrop = !image.squareCrop;
+    this.isProcessingImages = true;
+    this.imageProcessingService
+      .process(image.source, { squareCrop })
+      .subscribe({
+        next: (processed) => {
+          this.imageProcessingService.revokePreview(image.processed);
+          this.pendingImages = this.pendingImages.map((p) =>
+            p === image ? { ...p, processed, squareCrop } : p
+          );
+          this.isProcessingImages = false;
+        },
+        error: (error: Error) => {
+          this.notificationService.error(
+            `Failed to crop image. ${error.message}`
+          );
+          this.isProcessingImages = false;
+        },
+      });
   }
 
   /**
    * Remove selected image
    */
   removeImage(index: number): void {
-    this.selectedImages.splice(index, 1);
-    this.imagePreviewUrls.splice(index, 1);
+    const [removed] = this.pendingImages.splice(index, 1);
+    if (removed) {
+      this.imageProcessingService.revokePreview(removed.processed);
+    }
 
     // Adjust main image index if needed
-    if (this.mainImageIndex >= this.selectedImages.length) {
-      this.mainImageIndex = Math.max(0, this.selectedImages.length - 1);
+    if (index < this.mainImageIndex) {
+      this.mainImageIndex--;
+    } else if (this.mainImageIndex >= this.pendingImages.length) {
+      this.mainImageIndex = Math.max(0, this.pendingImages.length - 1);
     }
   }
 
@@ -209,8 +288,10 @@ export class AdminProductsComponent implements OnInit {
     }
 
     // Validate images for new products
-    if (!this.selectedProduct && this.selectedImages.length === 0) {
-      this.errorMessage = 'At least one product image is required';
+    if (!this.selectedProduct && this.pendingImages.length === 0) {
+      this.notificationService.warning(
+        'At least one product image is required'
+      );
       return;
     }
 
@@ -219,25 +300,30 @@ export class AdminProductsComponent implements OnInit {
 
     if (this.selectedProduct) {
       // Update existing product
+      const stockChanged =
+        !!this.productForm.get('stockQuantity')?.dirty &&
+        formData.stockQuantity !== null;
       const updateRequest: UpdateProductRequest = {
         name: formData.name,
         description: formData.description,
         price: formData.price,
+        categoryId: formData.categoryId,
+        stockQuantity: stockChanged ? formData.stockQuantity : undefined,
       };
 
       this.productService
         .updateProduct(this.selectedProduct.id, updateRequest)
         .subscribe({
           next: () => {
-            this.successMessage = 'Product updated successfully!';
+            this.notificationService.success('Product updated successfully!');
             this.closeProductModal();
             this.loadProducts();
             this.isLoading = false;
-            setTimeout(() => (this.successMessage = ''), 3000);
           },
-          error: (error: any) => {
-            this.errorMessage =
-              error.error?.message || 'Failed to update product.';
+          error: (error: ApiError) => {
+            this.notificationService.error(
+              `Failed to update product. ${error.message}`
+            );
             this.isLoading = false;
           },
         });
@@ -247,36 +333,63 @@ export class AdminProductsComponent implements OnInit {
       formDataPayload.append('name', formData.name);
       formDataPayload.append('description', formData.description || '');
       formDataPayload.append('price', formData.price.toString());
+      formDataPayload.append(
+        'stockQuantity',
+        formData.stockQuantity.toString()
+      );
       formDataPayload.append('categoryId', formData.categoryId);
       formDataPayload.append('mainImageIndex', this.mainImageIndex.toString());
 
       // Add all image files
-      this.selectedImages.forEach((file) => {
-        formDataPayload.append('images', file);
+      this.pendingImages.forEach((image) => {
+        formDataPayload.append('images', image.processed.file);
       });
 
-      this.productService.createProductWithImages(formDataPayload).subscribe({
-        next: () => {
-          this.successMessage = 'Product created successfully!';
-          this.closeProductModal();
-          this.loadProducts();
-          this.isLoading = false;
-          setTimeout(() => (this.successMessage = ''), 3000);
-        },
-        error: (error: any) => {
-          console.error('Error creating product:', error);
-          this.errorMessage =
-            error.error?.message || 'Failed to create product.';
-          this.isLoading = false;
-        },
-      });
+      this.uploadProgress = 0;
+      this.uploadRetryAttempt = 0;
+      this.uploadSubscription = this.productService
+        .createProductWithImages(formDataPayload)
+        .subscribe({
+          next: (state) => {
+            this.uploadProgress = state.progress;
+            this.uploadRetryAttempt = state.retryAttempt ?? 0;
+            if (state.done) {
+              this.resetUpload();
+              this.notificationService.success('Product created successfully!');
+              this.closeProductModal();
+              this.loadProducts();
+            }
+          },
+          error: (error: ApiError) => {
+            console.error('Error creating product:', error);
+            this.resetUpload();
+            this.notificationService.error(
+              `Failed to create product. ${error.message}`
+            );
+          },
+        });
     }
   }
 
+  /**
+   * Abort the running create request
+   */
+  cancelUpload(): void {
+    this.uploadSubscription?.unsubscribe();
+    this.resetUpload();
+    this.notificationService.info('Upload cancelled.');
+  }
+
+  /**
+   * The upload is fully sent once it reaches 100% and the server is processing it
+   */
+  get isUploadSent(): boolean {
+    return this.uploadProgress === 100;
+  }
+
   openDeleteProductModal(product: ProductDetail): void {
     this.selectedProduct = product;
     this.showDeleteProductModal = true;
-    this.clearMessages();
   }
 
   closeDeleteProductModal(): void {
@@ -291,7 +404,7 @@ export class AdminProductsComponent implements OnInit {
 
     this.productService.deleteProduct(this.selectedProduct.id).subscribe({
       next: () => {
-        this.successMessage = 'Product deleted successfully!';
+        this.notificationService.success('Product deleted successfully!');
         this.closeDeleteProductModal();
 
         // Adjust current page if needed
@@ -301,15 +414,367 @@ export class AdminProductsComponent implements OnInit {
 
         this.loadProducts();
         this.isLoading = false;
-        setTimeout(() => (this.successMessage = ''), 3000);
       },
-      error: (error: any) => {
-        this.errorMessage = error.error?.message || 'Failed to delete product.';
+      error: (error: ApiError) => {
+        this.notificationService.error(
+          `Failed to delete product. ${error.message}`
+        );
         this.isLoading = false;
       },
     });
   }
 
+  /**
+   * Row selection for bulk actions
+   */
+  isSelected(product: ProductDetail): boolean {
+    return this.selectedIds.has(product.id);
+  }
+
+  toggleSelection(product: ProductDetail): void {
+    if (this.selectedIds.has(product.id)) {
+      this.selectedIds.delete(product.id);
+    } else {
+      this.selectedIds.add(product.id);
+    }
+  }
+
+  get isAllSelected(): boolean {
+    return (
+      this.products.length > 0 &&
+      this.products.every((product) => this.selectedIds.has(product.id))
+    );
+  }
+
+  toggleSelectAll(): void {
+    if (this.isAllSelected) {
+      this.selectedIds.clear();
+    } else {
+      this.products.forEach((product) => this.selectedIds.add(product.id));
+    }
+  }
+
+  get selectedProducts(): ProductDetail[] {
+    return this.products.filter((product) => this.selectedIds.has(product.id));
+  }
+
+  openBulkModal(action: BulkProductAction): void {
+    if (this.selectedIds.size === 0) return;
+
+    this.bulkAction = action;
+    this.bulkCategoryId = '';
+    this.bulkPricePercent = 0;
+    this.bulkResults = null;
+    this.showBulkModal = true;
+  }
+
+  closeBulkModal(): void {
+    if (this.isBulkRunning) return;
+
+    const results = this.bulkResults;
+    const pageEmptied =
+      this.bulkAction === 'delete' &&
+      results?.filter((r) => r.success).length === this.products.length;
+    this.showBulkModal = false;
+    this.bulkAction = null;
+    this.bulkResults = null;
+    if (results) {
+      // Adjust current page if needed
+      if (pageEmptied && this.currentPage > 1) {
+        this.currentPage--;
+      }
+      this.loadProducts();
+    }
+  }
+
+  /**
+   * The change is complete enough to preview and apply
+   */
+  get isBulkActionValid(): boolean {
+    switch (this.bulkAction) {
+      case 'delete':
+        return true;
+      case 'category':
+        return !!this.bulkCategoryId;
+      case 'price':
+        return (
+          !!this.bulkPricePercent &&
+          this.bulkPricePercent > -100 &&
+          this.selectedProducts.every((product) => this.bulkPrice(product) > 0)
+        );
+      default:
+        return false;
+    }
+  }
+
+  /**
+   * New price after the percentage adjustment, rounded to cents
+   */
+  bulkPrice(product: ProductDetail): number {
+    const price = product.price * (1 + (this.bulkPricePercent || 0) / 100);
+    return Math.round(price * 100) / 100;
+  }
+
+  /**
+   * Apply the confirmed bulk action to every selected product
+   * Runs a few requests at a time; each failure is reported per product.
+   */
+  runBulkAction(): void {
+    const action = this.bulkAction;
+    const products = this.selectedProducts;
+    if (!action || products.length === 0 || !this.isBulkActionValid) return;
+
+    this.isBulkRunning = true;
+    from(products)
+      .pipe(
+        mergeMap(
+          (product) =>
+            this.applyBulkAction(action, product).pipe(
+              map(
+                (): BulkProductResult => ({
+                  productId: product.id,
+                  productName: product.name,
+                  success: true,
+                })
+              ),
+              catchError((error: ApiError) =>
+                of<BulkProductResult>({
+                  productId: product.id,
+                  productName: product.name,
+                  success: false,
+                  error: error.message,
+                })
+              )
+            ),
+          BULK_ACTION_CONCURRENCY
+        ),
+        toArray()
+      )
+      .subscribe((results) => {
+        // Report in the order of the table rather than completion order
+        this.bulkResults = products.map(
+          (product) => results.find((r) => r.productId === product.id)!
+        );
+        this.isBulkRunning = false;
+
+        const failed = results.filter((r) => !r.success).length;
+        const verb = action === 'delete' ? 'deleted' : 'updated';
+        if (failed === 0) {
+          this.notificationService.success(
+            `${results.length} product(s) ${verb}.`
+          );
+        } else {
+          this.notificationService.warning(
+            `${results.length - failed} succeeded, ${failed} failed.`
+          );
+        }
+      });
+  }
+
+  get bulkFailedCount(): number {
+    return this.bulkResults?.filter((r) => !r.success).length ?? 0;
+  }
+
+  /**
+   * Download the whole catalog (all pages)
+   */
+  exportCatalog(format: CatalogExportFormat): void {
+    this.isExporting = true;
+    this.productTransferService.getCatalog().subscribe({
+      next: (products) => {
+        const content = this.productTransferService.serialize(
+          products,
+          this.categories,
+          format
+        );
+        const date = new Date().toISOString().slice(0, 10);
+        this.productTransferService.download(
+          content,
+          `products-${date}.${format}`,
+          format
+        );
+        this.isExporting = false;
+      },
+      error: (error: ApiError) => {
+        this.notificationService.error(
+          `Failed to export products. ${error.message}`
+        );
+        this.isExporting = false;
+      },
+    });
+  }
+
+  closeImportWizard(imported: boolean): void {
+    this.showImportWizard = false;
+    if (imported) {
+      this.loadProducts();
+    }
+  }
+
+  /**
+   * Upload extra images for the product being edited
+   */
+  onAddImages(event: Event): void {
+    const input = event.target as HTMLInputElement;
+    const product = this.selectedProduct;
+    if (!product || !input.files || input.files.length === 0) return;
+
+    const sources = this.filterValidImages(Array.from(input.files));
+    input.value = '';
+    if (sources.length === 0) return;
+
+    this.isUpdatingImages = true;
+    this.imageProcessingService.processAll(sources).subscribe({
+      next: (results) => {
+        const processed = this.getProcessedImages(results).map(
+          ({ image }) => image
+        );
+        processed.forEach((image) =>
+          this.imageProcessingService.revokePreview(image)
+        );
+        const files = processed
+          .filter((image) => this.checkUploadSize(image))
+          .map((image) => image.file);
+        if (files.length === 0) {
+          this.isUpdatingImages = false;
+          return;
+        }
+
+        const formDataPayload = new FormData();
+        files.forEach((file) => formDataPayload.append('images', file));
+
+        this.productService
+          .addProductImages(product.id, formDataPayload)
+          .subscribe({
+            next: (images) => {
+              this.applyImages(product.id, images);
+              this.notificationService.success(
+                `${files.length} image(s) added.`
+              );
+              this.isUpdatingImages = false;
+            },
+            error: (error: ApiError) => {
+              this.notificationService.error(
+                `Failed to upload images. ${error.message}`
+              );
+              this.isUpdatingImages = false;
+            },
+          });
+      },
+    });
+  }
+
+  /**
+   * Delete one image of the product being edited
+   */
+  deleteImage(image: ProductImage): void {
+    const product = this.selectedProduct;
+    if (!product) return;
+
+    if (product.images.length <= 1) {
+      this.notificationService.warning('A product needs at least one image.');
+      return;
+    }
+    if (!confirm('Delete this image?')) return;
+
+    this.isUpdatingImages = true;
+    this.productService.deleteProductImage(product.id, image.id).subscribe({
+      next: () => {
+        const images = product.images.filter((img) => img.id !== image.id);
+        // The first remaining image takes over when the main one is deleted
+        if (image.isMain) {
+          images[0] = { ...images[0], isMain: true };
+        }
+        this.applyImages(product.id, images);
+        this.notificationService.success('Image deleted.');
+        this.isUpdatingImages = false;
+      },
+      error: (error: ApiError) => {
+        this.notificationService.error(
+          `Failed to delete image. ${error.message}`
+        );
+        this.isUpdatingImages = false;
+      },
+    });
+  }
+
+  /**
+   * Make an existing image the main product image
+   */
+  makeMainImage(image: ProductImage): void {
+    const product = this.selectedProduct;
+    if (!product || image.isMain) return;
+
+    this.isUpdatingImages = true;
+    this.productService.setMainProductImage(product.id, image.id).subscribe({
+      next: () => {
+        this.applyImages(
+          product.id,
+          product.images.map((img) => ({ ...img, isMain: img.id === image.id }))
+        );
+        this.notificationService.success('Main image updated.');
+        this.isUpdatingImages = false;
+      },
+      error: (error: ApiError) => {
+        this.notificationService.error(
+          `Failed to set main image. ${error.message}`
+        );
+        this.isUpdatingImages = false;
+      },
+    });
+  }
+
+  /**
+   * Drag and drop reordering of existing images
+   */
+  onImageDragStart(index: number): void {
+    this.draggedImageIndex = index;
+  }
+
+  onImageDragOver(event: DragEvent, index: number): void {
+    if (this.draggedImageIndex === null) return;
+    event.preventDefault();
+    this.dropTargetIndex = index;
+  }
+
+  onImageDragEnd(): void {
+    this.draggedImageIndex = null;
+    this.dropTargetIndex = null;
+  }
+
+  onImageDrop(event: DragEvent, index: number): void {
+    event.preventDefault();
+    const product = this.selectedProduct;
+    const from = this.draggedImageIndex;
+    this.onImageDragEnd();
+    if (!product || from === null || from === index) return;
+
+    const previousImages = product.images;
+    const images = [...previousImages];
+    const [moved] = images.splice(from, 1);
+    images.splice(index, 0, moved);
+
+    // Show the new order right away, revert if the server rejects it
+    this.applyImages(product.id, images);
+    this.productService
+      .reorderProductImages(
+        product.id,
+        images.map((img) => img.id)
+      )
+      .subscribe({
+        error: (error: ApiError) => {
+          this.applyImages(product.id, previousImages);
+          this.notificationService.error(
+            `Failed to reorder images. ${error.message}`
+          );
+        },
+      });
+  }
+
+  hasDetails(product: ProductDetail): boolean {
+    return !this.unavailableDetailIds.has(product.id);
+  }
+
   getCategoryName(categoryId: string): string {
     const category = this.categories.find((c) => c.id === categoryId);
     return category ? category.name : 'Unknown';
@@ -321,8 +786,115 @@ export class AdminProductsComponent implements OnInit {
     this.loadProducts();
   }
 
-  clearMessages(): void {
-    this.errorMessage = '';
-    this.successMessage = '';
+  /**
+   * Keep only JPG/PNG/GIF/WEBP files small enough to process, warning about the rest
+   */
+  private filterValidImages(files: File[]): File[] {
+    return files.filter((file) => {
+      if (!ALLOWED_IMAGE_TYPES.includes(file.type)) {
+        this.notificationService.warning(
+          `Invalid file type: ${file.name}. Allowed: JPG, PNG, GIF, WEBP`
+        );
+        return false;
+      }
+      if (file.size > MAX_SOURCE_SIZE) {
+        this.notificationService.warning(
+          `File too large: ${file.name}. Max size: 25MB`
+        );
+        return false;
+      }
+      return true;
+    });
+  }
+
+  /**
+   * The API still rejects files over 5MB after processing (e.g. large GIFs)
+   */
+  /**
+   * Warn about each file that could not be processed and keep the others
+   */
+  private getProcessedImages(
+    results: ImageProcessingResult[]
+  ): { source: File; image: ProcessedImage }[] {
+    return results.flatMap(({ source, image, error }) => {
+      if (!image) {
+        this.notificationService.warning(
+          `Skipped ${source.name}. ${error ?? 'Unsupported image'}`
+        );
+        return [];
+      }
+      return [{ source, image }];
+    });
+  }
+
+  private checkUploadSize(image: ProcessedImage): boolean {
+    if (image.file.size <= MAX_UPLOAD_SIZE) {
+      return true;
+    }
+    this.imageProcessingService.revokePreview(image);
+    this.notificationService.warning(
+      `File too large after compression: ${image.file.name}. Max size: 5MB`
+    );
+    return false;
+  }
+
+  private applyBulkAction(
+    action: BulkProductAction,
+    product: ProductDetail
+  ): Observable<void> {
+    if (action === 'delete') {
+      return this.productService.deleteProduct(product.id);
+    }
+
+    // The update replaces every field, so rows without details load them first
+    const detail$ = this.hasDetails(product)
+      ? of(product)
+      : this.productService.getProductById(product.id);
+
+    return detail$.pipe(
+      switchMap((detail) => {
+        const request: UpdateProductRequest = {
+          name: detail.name,
+          description: detail.description,
+          price: action === 'price' ? this.bulkPrice(detail) : detail.price,
+          categoryId:
+            action === 'category' ? this.bulkCategoryId : detail.categoryId,
+        };
+        return this.productService.updateProduct(product.id, request);
+      })
+    );
+  }
+
+  private resetUpload(): void {
+    this.uploadSubscription = null;
+    this.uploadProgress = null;
+    this.uploadRetryAttempt = 0;
+    this.isLoading = false;
+  }
+
+  private clearPendingImages(): void {
+    this.pendingImages.forEach((image) =>
+      this.imageProcessingService.revokePreview(image.processed)
+    );
+    this.pendingImages = [];
+    this.mainImageIndex = 0;
+  }
+
+  /**
+   * Update the edited product and its table row with a new image gallery
+   */
+  private applyImages(productId: string, images: ProductImage[]): void {
+    const mainImage = images.find((img) => img.isMain) ?? images[0];
+    const changes: Partial<ProductDetail> = {
+      images,
+      mainImageUrl: mainImage?.imageUrl,
+    };
+
+    if (this.selectedProduct?.id === productId) {
+      this.selectedProduct = { ...this.selectedProduct, ...changes };
+    }
+    this.products = this.products.map((p) =>
+      p.id === productId ? { ...p, ...changes } : p
+    );
   }
 }
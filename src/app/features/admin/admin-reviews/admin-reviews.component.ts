@@ -0,0 +1,143 @@
+import { Component, OnInit } from '@angular/core';
+import { ReviewService } from 'src/app/core/services/review.service';
+import { NotificationService } from 'src/app/core/services/notification.service';
+import {
+  ApiError,
+  PaginatedResult,
+  Review,
+  ReviewQueryParams,
+} from 'src/app/shared/models';
+
+type VisibilityFilter = 'all' | 'visible' | 'hidden';
+
+/**
+ * Admin Reviews Component
+ * Moderation queue: newest reviews first, hide abusive ones from the shop
+ */
+@Component({
+  selector: 'app-admin-reviews',
+  templateUrl: './admin-reviews.component.html',
+  styleUrls: ['./admin-reviews.component.css'],
+})
+export class AdminReviewsComponent implements OnInit {
+  reviews: Review[] = [];
+  isLoading = false;
+  errorMessage = '';
+
+  // Filters & Pagination
+  searchTerm = '';
+  visibilityFilter: VisibilityFilter = 'all';
+  currentPage = 1;
+  pageSize = 10;
+  totalPages = 0;
+  totalItems = 0;
+
+  // Reviews with a pending hide/show request
+  savingIds = new Set<string>();
+
+  Math = Math;
+
+  constructor(
+    private reviewService: ReviewService,
+    private notificationService: NotificationService
+  ) {}
+
+  ngOnInit(): void {
+    this.loadReviews();
+  }
+
+  /**
+   * Load reviews for the current page and filters
+   */
+  loadReviews(): void {
+    this.isLoading = true;
+    this.errorMessage = '';
+
+    const params: ReviewQueryParams = {
+      pageNumber: this.currentPage,
+      pageSize: this.pageSize,
+    };
+    if (this.searchTerm.trim()) {
+      params.searchTerm = this.searchTerm.trim();
+    }
+    if (this.visibilityFilter !== 'all') {
+      params.isHidden = this.visibilityFilter === 'hidden';
+    }
+
+    this.reviewService.getAllReviews(params).subscribe({
+      next: (result: PaginatedResult<Review>) => {
+        this.reviews = result.items;
+        this.totalPages = result.totalPages;
+        this.totalItems = result.totalItems;
+        this.isLoading = false;
+      },
+      error: (error: ApiError) => {
+        console.error('Error loading reviews:', error);
+        this.errorMessage = `Failed to load reviews. ${error.message}`;
+        this.isLoading = false;
+      },
+    });
+  }
+
+  /**
+   * Run search / filter from the first page
+   */
+  onSearch(): void {
+    this.currentPage = 1;
+    this.loadReviews();
+  }
+
+  clearSearch(): void {
+    this.searchTerm = '';
+    this.onSearch();
+  }
+
+  /**
+   * Hide a visible review or show a hidden one again
+   */
+  toggleHidden(review: Review): void {
+    if (this.savingIds.has(review.id)) return;
+
+    const isHidden = !review.isHidden;
+    this.savingIds.add(review.id);
+
+    this.reviewService.setHidden(review.id, isHidden).subscribe({
+      next: () => {
+        this.savingIds.delete(review.id);
+        this.reviews = this.reviews.map((r) =>
+          r.id === review.id ? { ...r, isHidden } : r
+        );
+        this.notificationService.success(
+          isHidden
+            ? `Review by ${review.userName} hidden.`
+            : `Review by ${review.userName} is visible again.`
+        );
+      },
+      error: (error: ApiError) => {
+        this.savingIds.delete(review.id);
+        console.error('Error updating review visibility:', error);
+        this.notificationService.error(
+          `Failed to update review. ${error.message}`
+        );
+      },
+    });
+  }
+
+  isSaving(review: Review): boolean {
+    return this.savingIds.has(review.id);
+  }
+
+  /**
+   * Pagination methods
+   */
+  goToPage(page: number): void {
+    if (page >= 1 && page <= this.totalPages) {
+      this.currentPage = page;
+      this.loadReviews();
+    }
+  }
+
+  get pages(): number[] {
+    return Array.from({ length: this.totalPages }, (_, i) => i + 1);
+  }
+}
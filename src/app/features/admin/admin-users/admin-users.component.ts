@@ -1,10 +1,297 @@
-import { Component } from '@angular/core';
+import { Component, OnInit } from '@angular/core';
+import { Router } from '@angular/router';
+import { UserService } from 'src/app/core/services/user.service';
+import { NotificationService } from 'src/app/core/services/notification.service';
+import { AuthStore } from 'src/app/store/auth.store';
+import {
+  ApiError,
+  Order,
+  OrderStatus,
+  PaginatedResult,
+  PaginationParams,
+  User,
+  UserDetail,
+  UserRole,
+  USER_ROLES,
+} from 'src/app/shared/models';
 
 @Component({
   selector: 'app-admin-users',
   templateUrl: './admin-users.component.html',
-  styleUrls: ['./admin-users.component.css']
+  styleUrls: ['./admin-users.component.css'],
 })
-export class AdminUsersComponent {
+export class AdminUsersComponent implements OnInit {
+  users: User[] = [];
+  isLoading = false;
+  errorMessage = '';
 
+  // Search & Pagination
+  searchTerm = '';
+  currentPage = 1;
+  pageSize = 10;
+  totalPages = 0;
+  totalItems = 0;
+
+  // Detail Modal
+  showUserModal = false;
+  selectedUser: UserDetail | null = null;
+  isLoadingDetail = false;
+  userOrders: Order[] = [];
+  totalUserOrders = 0;
+  isLoadingOrders = false;
+  isSaving = false;
+
+  // Constants for template
+  readonly roles = USER_ROLES;
+  readonly ordersPreviewSize = 5;
+  currentUserId: string | null = null;
+  OrderStatus = OrderStatus;
+  Math = Math;
+
+  constructor(
+    private userService: UserService,
+    private notificationService: NotificationService,
+    private authStore: AuthStore,
+    private router: Router
+  ) {}
+
+  ngOnInit(): void {
+    this.currentUserId = this.authStore.getAuthValue().userId;
+    this.loadUsers();
+  }
+
+  /**
+   * Load users for the current page and search term
+   */
+  loadUsers(): void {
+    this.isLoading = true;
+    this.errorMessage = '';
+
+    const params: PaginationParams = {
+      pageNumber: this.currentPage,
+      pageSize: this.pageSize,
+    };
+    if (this.searchTerm.trim()) {
+      params.searchTerm = this.searchTerm.trim();
+    }
+
+    this.userService.getUsers(params).subscribe({
+      next: (result: PaginatedResult<User>) => {
+        this.users = result.items;
+        this.totalPages = result.totalPages;
+        this.totalItems = result.totalItems;
+        this.isLoading = false;
+      },
+      error: (error: ApiError) => {
+        console.error('Error loading users:', error);
+        this.errorMessage = `Failed to load users. ${error.message}`;
+        this.isLoading = false;
+      },
+    });
+  }
+
+  /**
+   * Run search from the first page
+   */
+  onSearch(): void {
+    this.currentPage = 1;
+    this.loadUsers();
+  }
+
+  clearSearch(): void {
+    this.searchTerm = '';
+    this.onSearch();
+  }
+
+  /**
+   * Open user detail modal and load profile + recent orders
+   */
+  openUserModal(user: User): void {
+    this.selectedUser = null;
+    this.userOrders = [];
+    this.totalUserOrders = 0;
+    this.showUserModal = true;
+    this.isLoadingDetail = true;
+
+    this.userService.getUserById(user.id).subscribe({
+      next: (detail) => {
+        // Roles and lock state may only be present on the list projection
+        this.selectedUser = {
+          ...detail,
+          roles: detail.roles ?? user.roles ?? [],
+          isLocked: detail.isLocked ?? user.isLocked ?? false,
+        };
+        this.isLoadingDetail = false;
+        this.loadUserOrders(user.id);
+      },
+      error: (error: ApiError) => {
+        console.error('Error loading user detail:', error);
+        this.notificationService.error(
+          `Failed to load user details. ${error.message}`
+        );
+        this.isLoadingDetail = false;
+        this.closeUserModal();
+      },
+    });
+  }
+
+  closeUserModal(): void {
+    this.showUserModal = false;
+    this.selectedUser = null;
+    this.userOrders = [];
+  }
+
+  /**
+   * Load the most recent orders of the selected user
+   */
+  loadUserOrders(userId: string): void {
+    this.isLoadingOrders = true;
+
+    this.userService
+      .getUserOrders(userId, {
+        pageNumber: 1,
+        pageSize: this.ordersPreviewSize,
+        sortBy: 'OrderDate',
+        isDescending: true,
+      })
+      .subscribe({
+        next: (result) => {
+          this.userOrders = result.items;
+          this.totalUserOrders = result.totalItems;
+          this.isLoadingOrders = false;
+        },
+        error: (error) => {
+          console.error('Error loading user orders:', error);
+          this.userOrders = [];
+          this.isLoadingOrders = false;
+        },
+      });
+  }
+
+  /**
+   * Assign the role if the user lacks it, remove it otherwise
+   */
+  toggleRole(role: UserRole): void {
+    const user = this.selectedUser;
+    if (!user || this.isSaving) return;
+
+    if (this.isSelf(user) && role === 'Admin') {
+      this.notificationService.warning(
+        'You cannot remove your own Admin role.'
+      );
+      return;
+    }
+
+    const hasRole = this.hasRole(user, role);
+    const request$ = hasRole
+      ? this.userService.removeRole(user.id, role)
+      : this.userService.assignRole(user.id, role);
+
+    this.isSaving = true;
+
+    request$.subscribe({
+      next: () => {
+        const roles = hasRole
+          ? (user.roles ?? []).filter((r) => r !== role)
+          : [...(user.roles ?? []), role];
+        this.applyUserChange(user.id, { roles });
+        this.notificationService.success(
+          hasRole
+            ? `Role ${role} removed from ${user.fullName}.`
+            : `Role ${role} assigned to ${user.fullName}.`
+        );
+        this.isSaving = false;
+      },
+      error: (error: ApiError) => {
+        console.error('Error updating role:', error);
+        this.notificationService.error(
+          `Failed to update role. ${error.message}`
+        );
+        this.isSaving = false;
+      },
+    });
+  }
+
+  /**
+   * Lock or unlock a user account
+   */
+  toggleLock(user: User): void {
+    if (this.isSaving) return;
+
+    if (this.isSelf(user)) {
+      this.notificationService.warning('You cannot lock your own account.');
+      return;
+    }
+
+    const lock = !user.isLocked;
+    const request$ = lock
+      ? this.userService.lockUser(user.id)
+      : this.userService.unlockUser(user.id);
+
+    this.isSaving = true;
+
+    request$.subscribe({
+      next: () => {
+        this.applyUserChange(user.id, { isLocked: lock });
+        this.notificationService.success(
+          lock
+            ? `Account of ${user.fullName} locked.`
+            : `Account of ${user.fullName} unlocked.`
+        );
+        this.isSaving = false;
+      },
+      error: (error: ApiError) => {
+        console.error('Error updating lock state:', error);
+        this.notificationService.error(
+          `Failed to update account status. ${error.message}`
+        );
+        this.isSaving = false;
+      },
+    });
+  }
+
+  hasRole(user: User, role: string): boolean {
+    return user.roles?.includes(role) ?? false;
+  }
+
+  isSelf(user: User): boolean {
+    return user.id === this.currentUserId;
+  }
+
+  /**
+   * Navigate to order detail page
+   */
+  viewOrderDetail(orderId: string): void {
+    this.router.navigate(['/orders', orderId]);
+  }
+
+  getStatusText(status: OrderStatus): string {
+    return OrderStatus[status] ?? 'Unknown';
+  }
+
+  /**
+   * Pagination methods
+   */
+  goToPage(page: number): void {
+    if (page >= 1 && page <= this.totalPages) {
+      this.currentPage = page;
+      this.loadUsers();
+    }
+  }
+
+  get pages(): number[] {
+    return Array.from({ length: this.totalPages }, (_, i) => i + 1);
+  }
+
+  /**
+   * Keep list row and open detail in sync after a successful update
+   */
+  private applyUserChange(userId: string, changes: Partial<User>): void {
+    this.users = this.users.map((u) =>
+      u.id === userId ? { ...u, ...changes } : u
+    );
+    if (this.selectedUser?.id === userId) {
+      this.selectedUser = { ...this.selectedUser, ...changes };
+    }
+  }
 }
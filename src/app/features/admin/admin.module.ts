@@ -0,0 +1,38 @@
+import { NgModule } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule, ReactiveFormsModule } from '@angular/forms';
+
+import { AdminRoutingModule } from './admin-routing.module';
+import { SharedModule } from 'src/app/shared/shared.module';
+import { AdminComponent } from './admin.component';
+import { AdminProductsComponent } from './admin-products/admin-products.component';
+import { AdminProductImportComponent } from './admin-product-import/admin-product-import.component';
+import { AdminCategoriesComponent } from './admin-categories/admin-categories.component';
+import { AdminOrdersComponent } from './admin-orders/admin-orders.component';
+import { AdminReviewsComponent } from './admin-reviews/admin-reviews.component';
+import { AdminCouponsComponent } from './admin-coupons/admin-coupons.component';
+import { AdminUsersComponent } from './admin-users/admin-users.component';
+
+/**
+ * Admin area, loaded on first visit so shoppers don't download it
+ */
+@NgModule({
+  declarations: [
+    AdminComponent,
+    AdminProductsComponent,
+    AdminProductImportComponent,
+    AdminCategoriesComponent,
+    AdminOrdersComponent,
+    AdminReviewsComponent,
+    AdminCouponsComponent,
+    AdminUsersComponent,
+  ],
+  imports: [
+    CommonModule,
+    AdminRoutingModule,
+    SharedModule,
+    FormsModule,
+    ReactiveFormsModule,
+  ],
+})
+export class AdminModule {}
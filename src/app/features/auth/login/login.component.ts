@@ -1,6 +1,7 @@
 import { Component } from '@angular/core';
-import { Router } from '@angular/router';
+import { ActivatedRoute, Router } from '@angular/router';
 import { AuthService } from 'src/app/core/services/auth.service';
+import { ApiError } from 'src/app/shared/models';
 
 @Component({
   selector: 'app-login',
@@ -12,8 +13,16 @@ export class LoginComponent {
   password = '';
   isLoading = false;
   errorMessage = '';
+  sessionExpired = false;
 
-  constructor(private authService: AuthService, private router: Router) {}
+  constructor(
+    private authService: AuthService,
+    private router: Router,
+    private route: ActivatedRoute
+  ) {
+    this.sessionExpired =
+      this.route.snapshot.queryParamMap.get('expired') === 'true';
+  }
 
   /**
    * Handle login form submission
@@ -32,33 +41,21 @@ export class LoginComponent {
       next: (response) => {
         console.log('Login successful:', response);
 
-        // Check if user has Admin role
-        const roles = this.authService.getRoles();
-
-        if (roles.includes('Admin')) {
-          // Admin user - redirect to admin page
-          console.log('Admin user detected, redirecting to admin page');
-          this.router.navigate(['/admin']);
-        } else {
-          // Regular user - redirect to products page
-          console.log('Regular user detected, redirecting to products page');
-          this.router.navigate(['/products']);
-        }
+        // Go back to the page that required login, or the role's default page
+        const returnUrl = this.authService.resolveReturnUrl(
+          this.route.snapshot.queryParamMap.get('returnUrl')
+        );
+        console.log('Redirecting after login to', returnUrl);
+        this.router.navigateByUrl(returnUrl);
 
         this.isLoading = false;
       },
-      error: (error) => {
+      error: (error: ApiError) => {
         console.error('Login error:', error);
 
-        // Handle different error scenarios
-        if (error.status === 401) {
-          this.errorMessage = 'Invalid email or password';
-        } else if (error.status === 0) {
-          this.errorMessage =
-            'Cannot connect to server. Please check if the API is running.';
-        } else {
-          this.errorMessage = 'Login failed. Please try again.';
-        }
+        // A 401 from the login endpoint means bad credentials, not expiry
+        this.errorMessage =
+          error.status === 401 ? 'Invalid email or password' : error.message;
 
         this.isLoading = false;
       },
@@ -1,6 +1,8 @@
 import { Component, OnDestroy } from '@angular/core';
 import { Router } from '@angular/router';
 import { AuthService } from 'src/app/core/services/auth.service';
+import { NotificationService } from 'src/app/core/services/notification.service';
+import { ApiError } from 'src/app/shared/models';
 
 @Component({
   selector: 'app-register',
@@ -14,9 +16,12 @@ export class RegisterComponent {
   confirmPassword = '';
   isLoading = false;
   errorMessage = '';
-  successMessage = '';
 
-  constructor(private authService: AuthService, private router: Router) {}
+  constructor(
+    private authService: AuthService,
+    private notificationService: NotificationService,
+    private router: Router
+  ) {}
 
   /**
    * Handle registration form submission
@@ -49,37 +54,27 @@ export class RegisterComponent {
 
     this.isLoading = true;
     this.errorMessage = '';
-    this.successMessage = '';
 
     this.authService
       .register(this.fullName, this.email, this.password)
       .subscribe({
         next: (response) => {
           console.log('Registration successful:', response);
-          this.successMessage =
-            'Registration successful! Redirecting to login...';
+          this.notificationService.success(
+            'Registration successful! Please sign in with your new account.'
+          );
           this.isLoading = false;
 
           this.router.navigate(['/login']);
         },
-        error: (error) => {
+        error: (error: ApiError) => {
           console.error('Registration error:', error);
 
-          // Handle different error scenarios
-          if (error.status === 409) {
-            this.errorMessage =
-              'Email already exists. Please use a different email.';
-          } else if (error.status === 400) {
-            this.errorMessage =
-              error.error?.message ||
-              'Invalid registration data. Please check your inputs.';
-          } else if (error.status === 0) {
-            this.errorMessage =
-              'Cannot connect to server. Please check if the API is running.';
-          } else {
-            this.errorMessage =
-              error.error?.message || 'Registration failed. Please try again.';
-          }
+          // Keep the friendlier wording for duplicate emails
+          this.errorMessage =
+            error.status === 409
+              ? 'Email already exists. Please use a different email.'
+              : error.message;
 
           this.isLoading = false;
         },
@@ -89,8 +84,7 @@ export class RegisterComponent {
   /**
    * Clear error message when user starts typing
    */
-  clearMessages(): void {
+  clearError(): void {
     this.errorMessage = '';
-    this.successMessage = '';
   }
 }
@@ -1,10 +1,21 @@
 import { Component, OnDestroy, OnInit } from '@angular/core';
 import { Router } from '@angular/router';
+import { Subscription } from 'rxjs';
 import { FormBuilder, FormGroup, Validators } from '@angular/forms';
 import { CartService } from 'src/app/core/services/cart.service';
 import { OrderService } from 'src/app/core/services/order.service';
-import { Cart } from 'src/app/shared/models/cart.model';
-import { PaymentMethod } from 'src/app/shared/models/order.model';
+import { ProductService } from 'src/app/core/services/product.service';
+import { NotificationService } from 'src/app/core/services/notification.service';
+import { CouponService } from 'src/app/core/services/coupon.service';
+import { CouponStore } from 'src/app/store';
+import {
+  ApiError,
+  Cart,
+  CartStockIssue,
+  Coupon,
+  CreateOrderRequest,
+  PaymentMethod,
+} from 'src/app/shared/models';
 
 @Component({
   selector: 'app-checkout',
@@ -19,6 +30,14 @@ export class CheckoutComponent implements OnInit, OnDestroy {
   errorMessage = '';
   timeoutIds: number[] = [];
 
+  // Lines that ask for more than is left, keyed by cart item id
+  stockIssues: { [itemId: string]: CartStockIssue } = {};
+  fixingItemId: string | null = null;
+
+  // Promo code applied in the cart or here
+  coupon: Coupon | null = null;
+  private couponSubscription = new Subscription();
+
   // Payment method options
   paymentMethods = [
     {
@@ -43,15 +62,23 @@ export class CheckoutComponent implements OnInit, OnDestroy {
     private fb: FormBuilder,
     private cartService: CartService,
     private orderService: OrderService,
+    private productService: ProductService,
+    private notificationService: NotificationService,
+    private couponService: CouponService,
+    private couponStore: CouponStore,
     private router: Router
   ) {}
 
   ngOnInit(): void {
     this.initializeForm();
     this.loadCart();
+    this.couponSubscription = this.couponStore.coupon$.subscribe(
+      (coupon) => (this.coupon = coupon)
+    );
   }
 
   ngOnDestroy(): void {
+    this.couponSubscription.unsubscribe();
     this.timeoutIds.forEach((id) => clearTimeout(id));
     this.timeoutIds = [];
   }
@@ -66,26 +93,24 @@ export class CheckoutComponent implements OnInit, OnDestroy {
   loadCart(): void {
     this.isLoading = true;
     this.cartService.getCart().subscribe({
-      next: () => {
-        this.cartService.cart$.subscribe((cart) => {
-          this.cart = cart;
-          this.isLoading = false;
-
-          // Redirect if cart is empty
-          if (!cart || cart.items.length === 0) {
-            this.errorMessage =
-              'Your cart is empty. Please add items before checkout.';
-            const timeoutId = window.setTimeout(() => {
-              this.router.navigate(['/products']);
-            }, 2000);
-            this.timeoutIds.push(timeoutId);
-          }
-        });
+      next: (cart) => {
+        this.cart = cart;
+        this.isLoading = false;
+
+        // Redirect if cart is empty
+        if (cart.items.length === 0) {
+          this.errorMessage =
+            'Your cart is empty. Please add items before checkout.';
+          const timeoutId = window.setTimeout(() => {
+            this.router.navigate(['/products']);
+          }, 2000);
+          this.timeoutIds.push(timeoutId);
+        }
       },
-      error: (err) => {
+      error: (err: ApiError) => {
         console.error('Error loading cart:', err);
         this.isLoading = false;
-        this.errorMessage = 'Failed to load cart. Please try again.';
+        this.errorMessage = `Failed to load cart. ${err.message}`;
       },
     });
   }
@@ -103,15 +128,95 @@ export class CheckoutComponent implements OnInit, OnDestroy {
 
     this.isProcessing = true;
     this.errorMessage = '';
+    this.stockIssues = {};
 
-    const orderRequest = {
+    const orderRequest: CreateOrderRequest = {
       shippingAddress: this.checkoutForm.value.shippingAddress,
       paymentMethod: this.checkoutForm.value.paymentMethod,
+      // A code that doesn't apply to this cart would fail the whole order
+      couponCode: this.discount > 0 ? this.coupon?.code : undefined,
     };
 
+    // Stock may have run out since the items were added to the cart
+    this.productService.checkStock(this.cart.items).subscribe({
+      next: (issues) => {
+        if (issues.length > 0) {
+          issues.forEach((issue) => (this.stockIssues[issue.itemId] = issue));
+          this.isProcessing = false;
+          this.errorMessage =
+            'Some items are no longer available in the quantity you chose. Please review them in the order summary.';
+          return;
+        }
+        this.submitOrder(orderRequest);
+      },
+      error: (err: ApiError) => {
+        this.isProcessing = false;
+        console.error('Error checking stock:', err);
+        this.errorMessage = `Failed to check stock. ${err.message}`;
+      },
+    });
+  }
+
+  /**
+   * Lower the line to what is left, or remove it when sold out
+   */
+  fixStockIssue(issue: CartStockIssue): void {
+    this.fixingItemId = issue.itemId;
+
+    const request$ =
+      issue.available > 0
+        ? this.cartService.updateCartItem(issue.itemId, {
+            quantity: issue.available,
+          })
+        : this.cartService.removeCartItem(issue.itemId);
+
+    request$.subscribe({
+      next: (cart) => {
+        this.cart = cart;
+        this.fixingItemId = null;
+        delete this.stockIssues[issue.itemId];
+        if (cart.items.length === 0) {
+          this.errorMessage =
+            'Your cart is empty. Please add items before checkout.';
+        } else if (!this.hasStockIssues) {
+          this.errorMessage = '';
+        }
+      },
+      error: (err: ApiError) => {
+        this.fixingItemId = null;
+        console.error('Error updating cart item:', err);
+        this.notificationService.error(
+          `Failed to update ${issue.productName}. ${err.message}`
+        );
+      },
+    });
+  }
+
+  get hasStockIssues(): boolean {
+    return Object.keys(this.stockIssues).length > 0;
+  }
+
+  get discount(): number {
+    return this.coupon && this.cart
+      ? this.couponService.getDiscount(this.coupon, this.cart.totalAmount)
+      : 0;
+  }
+
+  get total(): number {
+    return this.cart ? this.cart.totalAmount - this.discount : 0;
+  }
+
+  getPaymentMethodLabel(value: PaymentMethod): string {
+    const method = this.paymentMethods.find((m) => m.value === value);
+    return method ? method.label : 'Unknown';
+  }
+
+  private submitOrder(orderRequest: CreateOrderRequest): void {
     this.orderService.createOrder(orderRequest).subscribe({
       next: (order) => {
         this.isProcessing = false;
+        this.notificationService.success('Order placed successfully!');
+        this.couponService.removeCoupon();
 
         this.cartService.clearCart().subscribe({
           next: () => {
@@ -126,29 +231,14 @@ export class CheckoutComponent implements OnInit, OnDestroy {
           },
         });
       },
-      error: (err) => {
+      error: (err: ApiError) => {
         this.isProcessing = false;
         console.error('Error creating order:', err);
-
-        if (err.status === 401) {
-          this.errorMessage = 'Session expired. Please login again.';
-          const timeoutId = window.setTimeout(() => {
-            this.router.navigate(['/login']);
-          }, 2000);
-          this.timeoutIds.push(timeoutId);
-        } else {
-          this.errorMessage =
-            err.error?.message || 'Failed to place order. Please try again.';
-        }
+        this.errorMessage = `Failed to place order. ${err.message}`;
       },
     });
   }
 
-  getPaymentMethodLabel(value: PaymentMethod): string {
-    const method = this.paymentMethods.find((m) => m.value === value);
-    return method ? method.label : 'Unknown';
-  }
-
   private markFormGroupTouched(formGroup: FormGroup): void {
     Object.keys(formGroup.controls).forEach((key) => {
       const control = formGroup.get(key);
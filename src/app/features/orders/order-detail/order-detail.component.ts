@@ -1,12 +1,22 @@
 import { Component, OnInit } from '@angular/core';
 import { ActivatedRoute, Router } from '@angular/router';
 import { OrderService } from 'src/app/core/services/order.service';
+import { NotificationService } from 'src/app/core/services/notification.service';
+import { InvoiceService } from 'src/app/core/services/invoice.service';
+import {
+  canChangeOrderStatus,
+  getNextOrderStatuses,
+} from 'src/app/core/config/order-workflow';
 import { AuthStore } from 'src/app/store/auth.store';
 import {
+  ApiError,
   OrderDetail,
   OrderStatus,
+  OrderStatusChange,
   PaymentMethod,
-} from 'src/app/shared/models/order.model';
+} from 'src/app/shared/models';
+
+const OTHER_REASON = 'Other';
 
 @Component({
   selector: 'app-order-detail',
@@ -17,9 +27,26 @@ export class OrderDetailComponent implements OnInit {
   order: OrderDetail | null = null;
   isLoading = false;
   errorMessage = '';
-  timeoutIds: number[] = [];
   isAdmin = false;
 
+  // Status timeline: recorded changes, then the steps still ahead
+  statusHistory: OrderStatusChange[] = [];
+  upcomingStatuses: OrderStatus[] = [];
+  cancellation: OrderStatusChange | null = null;
+
+  // Cancellation dialog
+  showCancelModal = false;
+  isCancelling = false;
+  cancelReason = '';
+  cancelDetails = '';
+  readonly cancelReasons = [
+    'Ordered by mistake',
+    'Found a better price elsewhere',
+    'Delivery takes too long',
+    'Want to change items or address',
+    OTHER_REASON,
+  ];
+
   // Enums for template
   OrderStatus = OrderStatus;
   PaymentMethod = PaymentMethod;
@@ -28,7 +55,9 @@ export class OrderDetailComponent implements OnInit {
     private orderService: OrderService,
     private route: ActivatedRoute,
     private router: Router,
-    private authStore: AuthStore
+    private authStore: AuthStore,
+    private notificationService: NotificationService,
+    private invoiceService: InvoiceService
   ) {}
 
   ngOnInit(): void {
@@ -44,11 +73,6 @@ export class OrderDetailComponent implements OnInit {
     }
   }
 
-  ngOnDestroy(): void {
-    this.timeoutIds.forEach((id) => clearTimeout(id));
-    this.timeoutIds = [];
-  }
-
   loadOrderDetail(orderId: string): void {
     this.isLoading = true;
     this.errorMessage = '';
@@ -61,24 +85,14 @@ export class OrderDetailComponent implements OnInit {
           order.orderItems = (order as any).Items;
         }
 
-        this.order = order;
+        this.applyOrder(order);
         this.isLoading = false;
       },
-      error: (err) => {
+      error: (err: ApiError) => {
         console.error('Error loading order detail:', err);
         this.isLoading = false;
-
-        if (err.status === 401) {
-          this.errorMessage = 'Session expired. Please login again.';
-          const timeoutId = window.setTimeout(() => {
-            this.router.navigate(['/login']);
-          }, 2000);
-          this.timeoutIds.push(timeoutId);
-        } else if (err.status === 404) {
-          this.errorMessage = 'Order not found.';
-        } else {
-          this.errorMessage = 'Failed to load order details. Please try again.';
-        }
+        this.errorMessage =
+          err.status === 404 ? 'Order not found.' : err.message;
       },
     });
   }
@@ -147,6 +161,88 @@ export class OrderDetailComponent implements OnInit {
     }
   }
 
+  /**
+   * Customers can cancel their own orders until they ship
+   */
+  get canCancel(): boolean {
+    return (
+      !!this.order &&
+      !this.isAdmin &&
+      canChangeOrderStatus(this.order.status, OrderStatus.Cancelled)
+    );
+  }
+
+  get isOtherReason(): boolean {
+    return this.cancelReason === OTHER_REASON;
+  }
+
+  get cancelReasonText(): string {
+    const details = this.cancelDetails.trim();
+    if (this.isOtherReason) {
+      return details;
+    }
+    return details ? `${this.cancelReason}: ${details}` : this.cancelReason;
+  }
+
+  openCancelModal(): void {
+    this.cancelReason = '';
+    this.cancelDetails = '';
+    this.showCancelModal = true;
+  }
+
+  closeCancelModal(): void {
+    if (this.isCancelling) return;
+    this.showCancelModal = false;
+  }
+
+  cancelOrder(): void {
+    const order = this.order;
+    const reason = this.cancelReasonText;
+    if (!order || !reason) return;
+
+    this.isCancelling = true;
+    this.orderService.cancelOrder(order, reason).subscribe({
+      next: (updated) => {
+        // Keep loaded items if the response leaves them out or has no body
+        this.applyOrder({
+          ...order,
+          status: OrderStatus.Cancelled,
+          ...updated,
+          orderItems: updated?.orderItems ?? order.orderItems,
+          statusHistory:
+            updated?.statusHistory ?? this.withLocalCancellation(order, reason),
+        });
+        this.isCancelling = false;
+        this.showCancelModal = false;
+        this.notificationService.success('Your order has been cancelled.');
+      },
+      error: (error: ApiError) => {
+        this.isCancelling = false;
+        this.notificationService.error(
+          `Failed to cancel order. ${error.message}`
+        );
+      },
+    });
+  }
+
+  /**
+   * Download the invoice PDF, or open the printable invoice when the PDF
+   * fonts can't show some of the text
+   */
+  downloadInvoice(): void {
+    if (!this.order) return;
+
+    const invoice = this.invoiceService.createInvoice(this.order);
+    if (!this.invoiceService.canCreatePdf(invoice)) {
+      this.notificationService.info(
+        'This invoice contains characters the PDF download cannot show. Use "Print" on the invoice page and choose "Save as PDF" instead.'
+      );
+      this.router.navigate(['/orders', this.order.id, 'invoice']);
+      return;
+    }
+    this.invoiceService.downloadPdf(invoice);
+  }
+
   goBack(): void {
     if (this.isAdmin) {
       this.router.navigate(['/admin'], { queryParams: { tab: 'orders' } });
@@ -158,4 +254,61 @@ export class OrderDetailComponent implements OnInit {
   continueShopping(): void {
     this.router.navigate(['/products']);
   }
+
+  private applyOrder(order: OrderDetail): void {
+    this.order = order;
+    this.statusHistory = this.buildStatusHistory(order);
+    this.upcomingStatuses = this.getUpcomingStatuses(order.status);
+    this.cancellation =
+      [...this.statusHistory]
+        .reverse()
+        .find((change) => change.status === OrderStatus.Cancelled) ?? null;
+  }
+
+  /**
+   * Record the cancellation locally when the API does not return the history
+   */
+  private withLocalCancellation(
+    order: OrderDetail,
+    reason: string
+  ): OrderStatusChange[] {
+    return [
+      ...this.buildStatusHistory(order),
+      {
+        status: OrderStatus.Cancelled,
+        changedAt: new Date().toISOString(),
+        changedBy: this.authStore.getAuthValue().email ?? undefined,
+        reason,
+      },
+    ];
+  }
+
+  /**
+   * History oldest first; orders without recorded history start at placement
+   */
+  private buildStatusHistory(order: OrderDetail): OrderStatusChange[] {
+    const history = order.statusHistory ?? [];
+    if (history.length === 0) {
+      return [{ status: OrderStatus.Pending, changedAt: order.orderDate }];
+    }
+    return [...history].sort((a, b) => a.changedAt.localeCompare(b.changedAt));
+  }
+
+  /**
+   * Remaining steps of the regular workflow (cancellation is not a step)
+   */
+  private getUpcomingStatuses(status: OrderStatus): OrderStatus[] {
+    const upcoming: OrderStatus[] = [];
+    const nextStep = (from: OrderStatus) =>
+      getNextOrderStatuses(from).find((s) => s !== OrderStatus.Cancelled);
+
+    for (
+      let next = nextStep(status);
+      next !== undefined;
+      next = nextStep(next)
+    ) {
+      upcoming.push(next);
+    }
+    return upcoming;
+  }
 }
@@ -0,0 +1,83 @@
+import { Component, OnInit } from '@angular/core';
+import { ActivatedRoute } from '@angular/router';
+import { OrderService } from 'src/app/core/services/order.service';
+import { InvoiceService } from 'src/app/core/services/invoice.service';
+import { NotificationService } from 'src/app/core/services/notification.service';
+import {
+  ApiError,
+  Invoice,
+  OrderDetail,
+  OrderStatus,
+} from 'src/app/shared/models';
+
+/**
+ * Order Invoice Component
+ * Print-optimized invoice of an order with a PDF download
+ */
+@Component({
+  selector: 'app-order-invoice',
+  templateUrl: './order-invoice.component.html',
+  styleUrls: ['./order-invoice.component.css'],
+})
+export class OrderInvoiceComponent implements OnInit {
+  invoice: Invoice | null = null;
+  isLoading = false;
+  errorMessage = '';
+
+  // Enums for template
+  OrderStatus = OrderStatus;
+
+  constructor(
+    private orderService: OrderService,
+    private invoiceService: InvoiceService,
+    private notificationService: NotificationService,
+    private route: ActivatedRoute
+  ) {}
+
+  ngOnInit(): void {
+    const orderId = this.route.snapshot.paramMap.get('id');
+    if (orderId) {
+      this.loadInvoice(orderId);
+    } else {
+      this.errorMessage = 'Order ID not found';
+    }
+  }
+
+  loadInvoice(orderId: string): void {
+    this.isLoading = true;
+    this.errorMessage = '';
+
+    this.orderService.getOrderById(orderId).subscribe({
+      next: (order: OrderDetail) => {
+        this.invoice = this.invoiceService.createInvoice(order);
+        this.isLoading = false;
+      },
+      error: (err: ApiError) => {
+        this.isLoading = false;
+        this.errorMessage =
+          err.status === 404 ? 'Order not found.' : err.message;
+      },
+    });
+  }
+
+  print(): void {
+    window.print();
+  }
+
+  /**
+   * Download the PDF, or open the print view when the PDF fonts can't show
+   * some of the text
+   */
+  downloadPdf(): void {
+    if (!this.invoice) return;
+
+    if (!this.invoiceService.canCreatePdf(this.invoice)) {
+      this.notificationService.info(
+        'This invoice contains characters the PDF download cannot show. Choose "Save as PDF" in the print dialog instead.'
+      );
+      this.print();
+      return;
+    }
+    this.invoiceService.downloadPdf(this.invoice);
+  }
+}
@@ -2,10 +2,11 @@ import { Component, OnInit } from '@angular/core';
 import { Router } from '@angular/router';
 import { OrderService } from 'src/app/core/services/order.service';
 import {
+  ApiError,
   Order,
   OrderStatus,
   PaymentMethod,
-} from 'src/app/shared/models/order.model';
+} from 'src/app/shared/models';
 
 @Component({
   selector: 'app-order-list',
@@ -22,7 +23,6 @@ export class OrderListComponent implements OnInit {
   pageSize = 5;
   totalPages = 0;
   totalItems = 0;
-  timeoutIds: number[] = [];
 
   // Enums for template
   OrderStatus = OrderStatus;
@@ -34,11 +34,6 @@ export class OrderListComponent implements OnInit {
     this.loadOrders();
   }
 
-  ngOnDestroy(): void {
-    this.timeoutIds.forEach((id) => clearTimeout(id));
-    this.timeoutIds = [];
-  }
-
   loadOrders(page: number = 1): void {
     this.isLoading = true;
     this.errorMessage = '';
@@ -58,19 +53,10 @@ export class OrderListComponent implements OnInit {
           this.totalItems = result.totalItems;
           this.isLoading = false;
         },
-        error: (err) => {
+        error: (err: ApiError) => {
           console.error('Error loading orders:', err);
           this.isLoading = false;
-
-          if (err.status === 401) {
-            this.errorMessage = 'Session expired. Please login again.';
-            const timeoutId = window.setTimeout(() => {
-              this.router.navigate(['/login']);
-            }, 2000);
-            this.timeoutIds.push(timeoutId);
-          } else {
-            this.errorMessage = 'Failed to load orders. Please try again.';
-          }
+          this.errorMessage = `Failed to load orders. ${err.message}`;
         },
       });
   }
@@ -0,0 +1,83 @@
+import { Component, Input } from '@angular/core';
+import { CartService } from '../../../core/services/cart.service';
+import {
+  getAddableQuantity,
+  getStockStatus,
+} from '../../../core/config/inventory';
+import { NotificationService } from '../../../core/services/notification.service';
+import { AuthStore, GuestCartStore } from '../../../store';
+import {
+  ApiError,
+  Product,
+  ProductRatingSummary,
+} from '../../../shared/models';
+
+/**
+ * Product Card Component
+ * Catalog card of a product with rating, wishlist heart and add to cart.
+ * Shared by the product list and the strips on the product detail page.
+ */
+@Component({
+  selector: 'app-product-card',
+  templateUrl: './product-card.component.html',
+  styleUrls: ['./product-card.component.css'],
+})
+export class ProductCardComponent {
+  @Input() product!: Product;
+  @Input() rating?: ProductRatingSummary;
+
+  isAddingToCart = false;
+
+  constructor(
+    private cartService: CartService,
+    private authStore: AuthStore,
+    private guestCartStore: GuestCartStore,
+    private notificationService: NotificationService
+  ) {}
+
+  get isOutOfStock(): boolean {
+    return getStockStatus(this.product.stockQuantity) === 'out-of-stock';
+  }
+
+  /**
+   * Add product to cart, unless the cart already holds all units in stock
+   */
+  addToCart(): void {
+    const product = this.product;
+
+    const quantityInCart = this.cartService.getQuantityInCart(product.id);
+    if (getAddableQuantity(product.stockQuantity, quantityInCart) < 1) {
+      this.notificationService.warning(
+        `Your cart already has all available units of ${product.name}.`
+      );
+      return;
+    }
+
+    // Guests keep their cart locally until they sign in
+    if (!this.authStore.getAuthValue().isAuthenticated) {
+      this.guestCartStore.addItem(product);
+      this.notificationService.success(`${product.name} added to cart!`);
+      return;
+    }
+
+    this.isAddingToCart = true;
+
+    this.cartService
+      .addToCart({ productId: product.id, quantity: 1 })
+      .subscribe({
+        next: () => {
+          this.isAddingToCart = false;
+          this.notificationService.success(`${product.name} added to cart!`);
+        },
+        error: (error: ApiError) => {
+          this.isAddingToCart = false;
+          console.error('Error adding to cart:', error);
+
+          // 401 is handled by AuthInterceptor (refresh or redirect to login)
+          if (error.status !== 401) {
+            this.notificationService.error(error.message);
+          }
+        },
+      });
+  }
+}
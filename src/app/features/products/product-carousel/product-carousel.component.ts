@@ -0,0 +1,37 @@
+import { Component, ElementRef, Input, ViewChild } from '@angular/core';
+import { Product, ProductRatingSummary } from '../../../shared/models';
+
+/**
+ * Product Carousel Component
+ * Horizontally scrolling strip of product cards with previous/next buttons
+ */
+@Component({
+  selector: 'app-product-carousel',
+  templateUrl: './product-carousel.component.html',
+  styleUrls: ['./product-carousel.component.css'],
+})
+export class ProductCarouselComponent {
+  @Input() title = '';
+  @Input() icon = 'bi-grid';
+  @Input() products: Product[] = [];
+  @Input() ratings: { [productId: string]: ProductRatingSummary } = {};
+
+  @ViewChild('track') track?: ElementRef<HTMLElement>;
+
+  /**
+   * Scroll by one visible width in the given direction
+   */
+  scroll(direction: 1 | -1): void {
+    const track = this.track?.nativeElement;
+    if (track) {
+      track.scrollBy({
+        left: direction * track.clientWidth,
+        behavior: 'smooth',
+      });
+    }
+  }
+
+  trackById(_: number, product: Product): string {
+    return product.id;
+  }
+}
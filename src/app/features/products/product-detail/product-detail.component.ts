@@ -1,59 +1,75 @@
-import { Component, OnInit } from '@angular/core';
+import { Component, OnDestroy, OnInit } from '@angular/core';
 import { ActivatedRoute, Router } from '@angular/router';
+import { EMPTY, Observable, Subscription, merge } from 'rxjs';
+import { catchError, switchMap, tap } from 'rxjs/operators';
 import { ProductService } from 'src/app/core/services/product.service';
 import { CartService } from 'src/app/core/services/cart.service';
-import { AuthStore } from 'src/app/store/auth.store';
-import { ProductDetail } from 'src/app/shared/models/product.model';
+import { NotificationService } from 'src/app/core/services/notification.service';
+import { ReviewService } from 'src/app/core/services/review.service';
+import { getAddableQuantity } from 'src/app/core/config/inventory';
+import { AuthStore, GuestCartStore, RecentlyViewedStore } from 'src/app/store';
+import {
+  ApiError,
+  Product,
+  ProductDetail,
+  ProductRatingSummary,
+} from 'src/app/shared/models';
 
 @Component({
   selector: 'app-product-detail',
   templateUrl: './product-detail.component.html',
   styleUrls: ['./product-detail.component.css'],
 })
-export class ProductDetailComponent implements OnInit {
+export class ProductDetailComponent implements OnInit, OnDestroy {
   product: ProductDetail | null = null;
   selectedImage: string = '';
   isLoading = false;
   errorMessage = '';
   quantity = 1;
   isAddingToCart = false;
-  successMessage = '';
+
+  // Product strips below the details
+  relatedProducts: Product[] = [];
+  recentlyViewed: Product[] = [];
+  ratings: { [productId: string]: ProductRatingSummary } = {};
+
+  private subscriptions = new Subscription();
 
   constructor(
     private productService: ProductService,
     private cartService: CartService,
     private authStore: AuthStore,
+    private guestCartStore: GuestCartStore,
+    private recentlyViewedStore: RecentlyViewedStore,
+    private reviewService: ReviewService,
+    private notificationService: NotificationService,
     private route: ActivatedRoute,
     private router: Router
   ) {}
 
   ngOnInit(): void {
-    // Get product ID from route parameter
-    const id = this.route.snapshot.paramMap.get('id');
-    if (id) {
-      this.loadProductDetails(id);
-    } else {
-      this.errorMessage = 'Product ID not found';
-    }
+    // Follow the route parameter: related and recently viewed cards link to
+    // other products while this component stays on screen. switchMap drops
+    // the responses for the product that was left.
+    this.subscriptions.add(
+      this.route.paramMap
+        .pipe(
+          switchMap((params) => {
+            const id = params.get('id');
+            if (!id) {
+              this.errorMessage = 'Product ID not found';
+              return EMPTY;
+            }
+            window.scrollTo({ top: 0 });
+            return this.requestProductDetails(id);
+          })
+        )
+        .subscribe()
+    );
   }
 
-  loadProductDetails(id: string): void {
-    this.isLoading = true;
-    this.errorMessage = '';
-
-    this.productService.getProductById(id).subscribe({
-      next: (result: ProductDetail) => {
-        this.product = result;
-        // Set the main image or first image as selected
-        this.selectedImage = this.getMainImage();
-        this.isLoading = false;
-      },
-      error: (error) => {
-        console.error('Error loading product details:', error);
-        this.errorMessage = 'Failed to load product details. Please try again.';
-        this.isLoading = false;
-      },
-    });
+  ngOnDestroy(): void {
+    this.subscriptions.unsubscribe();
   }
 
   /**
@@ -92,10 +108,21 @@ export class ProductDetailComponent implements OnInit {
   }
 
   /**
-   * Increase quantity
+   * Units that can still be added, given the stock and the cart
+   */
+  get addableQuantity(): number {
+    if (!this.product) return 0;
+    return getAddableQuantity(
+      this.product.stockQuantity,
+      this.cartService.getQuantityInCart(this.product.id)
+    );
+  }
+
+  /**
+   * Increase quantity, up to what is still available
    */
   increaseQuantity(): void {
-    if (this.quantity < 99) {
+    if (this.quantity < this.addableQuantity) {
       this.quantity++;
     }
   }
@@ -115,47 +142,126 @@ export class ProductDetailComponent implements OnInit {
   addToCart(): void {
     if (!this.product) return;
 
-    // Check if user is logged in
+    const product = this.product;
+
+    // The cart may have changed since the quantity was picked
+    const addable = this.addableQuantity;
+    if (this.quantity > addable) {
+      this.notificationService.warning(
+        addable > 0
+          ? `Only ${addable} more of ${product.name} can be added to your cart.`
+          : `Your cart already has all available units of ${product.name}.`
+      );
+      this.quantity = Math.max(1, addable);
+      return;
+    }
+
+    // Guests keep their cart locally until they sign in
     const auth = this.authStore.getAuthValue();
     if (!auth.isAuthenticated) {
-      alert('Please login to add items to cart');
-      this.router.navigate(['/login']);
+      this.guestCartStore.addItem(
+        { ...product, mainImageUrl: this.getMainImage() },
+        this.quantity
+      );
+      this.notificationService.success(`${product.name} added to cart!`);
+      this.quantity = 1;
       return;
     }
-
     this.isAddingToCart = true;
-    this.successMessage = '';
 
     this.cartService
       .addToCart({
-        productId: this.product.id,
+        productId: product.id,
         quantity: this.quantity,
       })
       .subscribe({
         next: () => {
           this.isAddingToCart = false;
-          this.successMessage = `${this.product!.name} added to cart!`;
+          this.notificationService.success(`${product.name} added to cart!`);
 
           // Reset quantity
           this.quantity = 1;
-
-          // Clear success message after 3 seconds
-          setTimeout(() => {
-            this.successMessage = '';
-          }, 3000);
         },
-        error: (err) => {
+        error: (err: ApiError) => {
           this.isAddingToCart = false;
+          console.error('Error adding to cart:', err);
 
-          if (err.status === 401) {
-            alert('Session expired. Please login again.');
-            this.router.navigate(['/login']);
-          } else {
-            alert('Failed to add item to cart. Please try again.');
+          // 401 is handled by AuthInterceptor (refresh or redirect to login)
+          if (err.status !== 401) {
+            this.notificationService.error(err.message);
           }
-
-          console.error('Error adding to cart:', err);
         },
       });
   }
+
+  private requestProductDetails(id: string): Observable<unknown> {
+    this.isLoading = true;
+    this.errorMessage = '';
+    this.quantity = 1;
+    this.relatedProducts = [];
+
+    return this.productService.getProductById(id).pipe(
+      tap((result: ProductDetail) => {
+        this.product = result;
+        // Set the main image or first image as selected
+        this.selectedImage = this.getMainImage();
+        this.isLoading = false;
+
+        // Earlier views only; this product becomes the newest entry
+        this.recentlyViewed = this.recentlyViewedStore
+          .getProductsValue()
+          .filter((p) => p.id !== result.id);
+        this.recentlyViewedStore.addProduct({
+          ...result,
+          mainImageUrl: this.getMainImage(),
+        });
+      }),
+      catchError((error) => {
+        console.error('Error loading product details:', error);
+        this.errorMessage = 'Failed to load product details. Please try again.';
+        this.isLoading = false;
+        return EMPTY;
+      }),
+      switchMap((result) =>
+        merge(this.requestRatings(), this.requestRelatedProducts(result))
+      )
+    );
+  }
+
+  /**
+   * Load products of the same category; the strip is simply hidden on failure
+   */
+  private requestRelatedProducts(product: ProductDetail): Observable<unknown> {
+    return this.productService.getRelatedProducts(product).pipe(
+      tap((products) => (this.relatedProducts = products)),
+      catchError((error) => {
+        console.error('Error loading related products:', error);
+        return EMPTY;
+      }),
+      switchMap(() => this.requestRatings())
+    );
+  }
+
+  /**
+   * Load the average ratings of all products in the strips in one request
+   */
+  private requestRatings(): Observable<unknown> {
+    const productIds = [
+      ...new Set(
+        [...this.relatedProducts, ...this.recentlyViewed].map((p) => p.id)
+      ),
+    ];
+
+    return this.reviewService.getRatingSummaries(productIds).pipe(
+      tap((summaries) => {
+        summaries.forEach((summary) => {
+          this.ratings[summary.productId] = summary;
+        });
+      }),
+      catchError((error) => {
+        console.error('Error loading product ratings:', error);
+        return EMPTY;
+      })
+    );
+  }
 }
@@ -1,100 +1,111 @@
-import { Component, OnInit } from '@angular/core';
-import { Router } from '@angular/router';
+import { Component, OnDestroy, OnInit } from '@angular/core';
+import { ActivatedRoute, ParamMap, Params, Router } from '@angular/router';
+import { EMPTY, Observable, Subject, Subscription, merge } from 'rxjs';
+import { catchError, switchMap, tap } from 'rxjs/operators';
 import { ProductService } from '../../../core/services/product.service';
-import { CartService } from '../../../core/services/cart.service';
-import { AuthStore } from '../../../store/auth.store';
-import { Product, PaginatedResult } from '../../../shared/models';
+import { CategoryService } from '../../../core/services/category.service';
+import { ReviewService } from '../../../core/services/review.service';
+import {
+  ApiError,
+  Category,
+  Product,
+  PaginatedResult,
+  ProductQueryParams,
+  ProductRatingSummary,
+} from '../../../shared/models';
+
+const DEFAULT_PAGE_SIZE = 8;
+const DEFAULT_SORT_BY = 'createdAt';
+const SORT_OPTIONS = ['name', 'price', 'createdAt'];
 
 /**
  * Product List Component
- * Displays paginated list of products with search and sorting
+ * Displays paginated list of products with search, sorting and filters.
+ * All list state lives in the URL query string so views can be shared
+ * and survive back/forward navigation.
  */
 @Component({
   selector: 'app-product-list',
   templateUrl: './product-list.component.html',
   styleUrls: ['./product-list.component.css'],
 })
-export class ProductListComponent implements OnInit {
+export class ProductListComponent implements OnInit, OnDestroy {
   // Data properties
   products: Product[] = [];
+  categories: Category[] = [];
+  ratings: { [productId: string]: ProductRatingSummary } = {};
 
   // Pagination properties
   currentPage = 1;
-  pageSize = 8;
+  pageSize = DEFAULT_PAGE_SIZE;
   totalPages = 0;
   totalItems = 0;
+  readonly pageSizeOptions = [8, 12, 24, 48];
 
   // UI state properties
   loading = false;
   errorMessage = '';
   searchTerm = '';
-  sortBy = 'createdAt'; // Use lowercase to match HTML options
+  sortBy = DEFAULT_SORT_BY; // Use lowercase to match HTML options
   isDescending = true;
 
-  timeoutIds: number[] = [];
+  // Filters
+  categoryId = '';
+  minPrice: number | null = null;
+  maxPrice: number | null = null;
+  inStock = false;
 
-  // Cart state
-  addingToCart: { [productId: string]: boolean } = {};
-  successMessage = '';
+  private subscriptions = new Subscription();
+  private reload$ = new Subject<void>();
 
   constructor(
     private productService: ProductService,
-    private cartService: CartService,
-    private authStore: AuthStore,
+    private categoryService: CategoryService,
+    private reviewService: ReviewService,
+    private route: ActivatedRoute,
     private router: Router
   ) {}
 
   /**
    * Lifecycle hook - called when component initializes
-   * Load products on component initialization
+   * Load categories once, then reload products whenever the query string changes
    */
   ngOnInit(): void {
-    this.loadProducts();
+    this.loadCategories();
+
+    // switchMap drops the responses of a query that was replaced meanwhile
+    this.subscriptions.add(
+      merge(
+        this.route.queryParamMap.pipe(
+          tap((params) => this.readQueryParams(params))
+        ),
+        this.reload$
+      )
+        .pipe(switchMap(() => this.requestProducts()))
+        .subscribe()
+    );
   }
 
   ngOnDestroy(): void {
-    this.timeoutIds.forEach((id) => clearTimeout(id));
-    this.timeoutIds = [];
+    this.subscriptions.unsubscribe();
+  }
+
+  loadCategories(): void {
+    this.categoryService.getCategories().subscribe({
+      next: (categories: Category[]) => {
+        this.categories = categories;
+      },
+      error: (error: ApiError) => {
+        console.error('Error loading categories:', error);
+      },
+    });
   }
 
   /**
-   * Load products from API with current pagination and search settings
+   * Load products from API with current pagination, search and filters
    */
   loadProducts(): void {
-    this.loading = true;
-    this.errorMessage = '';
-
-    // Map frontend sort values to backend API field names
-    const sortFieldMap: { [key: string]: string } = {
-      name: 'Name',
-      price: 'Price',
-      createdAt: 'CreatedAt',
-    };
-
-    // Call the service with pagination parameters
-    this.productService
-      .getProducts({
-        pageNumber: this.currentPage,
-        pageSize: this.pageSize,
-        searchTerm: this.searchTerm || undefined,
-        sortBy: sortFieldMap[this.sortBy] || 'CreatedAt', // Map to API field name
-        isDescending: this.isDescending,
-      })
-      .subscribe({
-        // Success handler
-        next: (result: PaginatedResult<Product>) => {
-          this.products = result.items;
-          this.totalPages = result.totalPages;
-          this.totalItems = result.totalItems;
-          this.loading = false;
-        },
-        // Error handler
-        error: (error) => {
-          console.error('Error loading products:', error);
-          this.errorMessage = 'Failed to load products. Please try again.';
-          this.loading = false;
-        },
-      });
+    this.reload$.next();
   }
 
   /**
@@ -102,8 +113,7 @@ export class ProductListComponent implements OnInit {
    * Reset to page 1 when searching
    */
   onSearch(): void {
-    this.currentPage = 1;
-    this.loadProducts();
+    this.updateQuery({ page: 1 });
   }
 
   /**
@@ -111,8 +121,7 @@ export class ProductListComponent implements OnInit {
    */
   previousPage(): void {
     if (this.currentPage > 1) {
-      this.currentPage--;
-      this.loadProducts();
+      this.updateQuery({ page: this.currentPage - 1 });
     }
   }
 
@@ -121,8 +130,7 @@ export class ProductListComponent implements OnInit {
    */
   nextPage(): void {
     if (this.currentPage < this.totalPages) {
-      this.currentPage++;
-      this.loadProducts();
+      this.updateQuery({ page: this.currentPage + 1 });
     }
   }
 
@@ -131,8 +139,7 @@ export class ProductListComponent implements OnInit {
    */
   goToPage(page: number): void {
     if (page >= 1 && page <= this.totalPages) {
-      this.currentPage = page;
-      this.loadProducts();
+      this.updateQuery({ page });
     }
   }
 
@@ -159,12 +166,11 @@ export class ProductListComponent implements OnInit {
   }
 
   /**
-   * Handle sort field or direction changes
+   * Handle sort field, direction or page size changes
    * Reset to page 1 when sorting changes
    */
   onSortChange(): void {
-    this.currentPage = 1; // Reset to first page when sorting changes
-    this.loadProducts();
+    this.updateQuery({ page: 1 });
   }
 
   /**
@@ -172,61 +178,171 @@ export class ProductListComponent implements OnInit {
    */
   toggleSortDirection(): void {
     this.isDescending = !this.isDescending;
-    this.currentPage = 1;
-    this.loadProducts();
+    this.updateQuery({ page: 1 });
   }
 
   /**
-   * Add product to cart
+   * Apply category / price / stock filters from the sidebar
    */
-  addToCart(product: Product): void {
-    // Check if user is logged in
-    if (!this.authStore.getAuthValue().isAuthenticated) {
-      alert('Please login to add items to cart');
-      this.router.navigate(['/login']);
-      return;
+  applyFilters(): void {
+    if (
+      this.minPrice !== null &&
+      this.maxPrice !== null &&
+      this.minPrice > this.maxPrice
+    ) {
+      [this.minPrice, this.maxPrice] = [this.maxPrice, this.minPrice];
     }
+    this.updateQuery({ page: 1 });
+  }
+
+  selectCategory(categoryId: string): void {
+    this.categoryId = categoryId;
+    this.applyFilters();
+  }
+
+  /**
+   * Reset search and filters, keeping sort and page size
+   */
+  clearFilters(): void {
+    this.searchTerm = '';
+    this.categoryId = '';
+    this.minPrice = null;
+    this.maxPrice = null;
+    this.inStock = false;
+    this.updateQuery({ page: 1 });
+  }
+
+  get hasActiveFilters(): boolean {
+    return (
+      !!this.searchTerm ||
+      !!this.categoryId ||
+      this.minPrice !== null ||
+      this.maxPrice !== null ||
+      this.inStock
+    );
+  }
+
+  getCategoryName(categoryId: string): string {
+    return this.categories.find((c) => c.id === categoryId)?.name ?? '';
+  }
 
-    // Set loading state for this product
-    this.addingToCart[product.id] = true;
+  private requestProducts(): Observable<unknown> {
+    this.loading = true;
     this.errorMessage = '';
-    this.successMessage = '';
-
-    // Call cart service to add item
-    this.cartService
-      .addToCart({ productId: product.id, quantity: 1 })
-      .subscribe({
-        next: (cart) => {
-          this.addingToCart[product.id] = false;
-          this.successMessage = `${product.name} added to cart!`;
-
-          // Clear success message after 3 seconds
-          const timeoutId = window.setTimeout(() => {
-            this.successMessage = '';
-          }, 3000);
-
-          this.timeoutIds.push(timeoutId);
-        },
-        error: (error) => {
-          this.addingToCart[product.id] = false;
-          console.error('Error adding to cart:', error);
-
-          if (error.status === 401) {
-            alert('Session expired. Please login again.');
-            this.router.navigate(['/login']);
-          } else {
-            this.errorMessage =
-              error.error?.message ||
-              'Failed to add item to cart. Please try again.';
-          }
-        },
-      });
+
+    // Map frontend sort values to backend API field names
+    const sortFieldMap: { [key: string]: string } = {
+      name: 'Name',
+      price: 'Price',
+      createdAt: 'CreatedAt',
+    };
+
+    const params: ProductQueryParams = {
+      pageNumber: this.currentPage,
+      pageSize: this.pageSize,
+      searchTerm: this.searchTerm || undefined,
+      sortBy: sortFieldMap[this.sortBy] || 'CreatedAt', // Map to API field name
+      isDescending: this.isDescending,
+      categoryId: this.categoryId || undefined,
+      minPrice: this.minPrice ?? undefined,
+      maxPrice: this.maxPrice ?? undefined,
+      inStock: this.inStock || undefined,
+    };
+
+    // Call the service with pagination and filter parameters
+    return this.productService.getProducts(params).pipe(
+      tap((result: PaginatedResult<Product>) => {
+        this.products = result.items;
+        this.totalPages = result.totalPages;
+        this.totalItems = result.totalItems;
+        this.loading = false;
+      }),
+      catchError((error) => {
+        console.error('Error loading products:', error);
+        this.errorMessage = 'Failed to load products. Please try again.';
+        this.loading = false;
+        return EMPTY;
+      }),
+      switchMap(() => this.requestRatings())
+    );
+  }
+
+  /**
+   * Load the average ratings of the listed products in one request
+   * Cards simply show no stars when this fails
+   */
+  private requestRatings(): Observable<unknown> {
+    const productIds = this.products.map((p) => p.id);
+
+    return this.reviewService.getRatingSummaries(productIds).pipe(
+      tap((summaries) => {
+        this.ratings = {};
+        summaries.forEach((summary) => {
+          this.ratings[summary.productId] = summary;
+        });
+      }),
+      catchError((error) => {
+        console.error('Error loading product ratings:', error);
+        this.ratings = {};
+        return EMPTY;
+      })
+    );
   }
 
   /**
-   * Check if product is being added to cart
+   * Write the current list state to the URL
+   * Default values are left out to keep shared links short
    */
-  isAddingToCart(productId: string): boolean {
-    return this.addingToCart[productId] || false;
+  private updateQuery(overrides: { page?: number } = {}): void {
+    const page = overrides.page ?? this.currentPage;
+    const queryParams: Params = {
+      page: page > 1 ? page : null,
+      pageSize: this.pageSize !== DEFAULT_PAGE_SIZE ? this.pageSize : null,
+      search: this.searchTerm.trim() || null,
+      sortBy: this.sortBy !== DEFAULT_SORT_BY ? this.sortBy : null,
+      order: this.isDescending ? null : 'asc',
+      category: this.categoryId || null,
+      minPrice: this.minPrice,
+      maxPrice: this.maxPrice,
+      inStock: this.inStock ? 'true' : null,
+    };
+
+    this.router.navigate([], {
+      relativeTo: this.route,
+      queryParams,
+    });
+  }
+
+  /**
+   * Read list state from the URL, falling back to defaults for bad values
+   */
+  private readQueryParams(params: ParamMap): void {
+    this.currentPage = this.readNumber(params, 'page', 1) ?? 1;
+    const pageSize = this.readNumber(params, 'pageSize', 1);
+    this.pageSize =
+      pageSize && this.pageSizeOptions.includes(pageSize)
+        ? pageSize
+        : DEFAULT_PAGE_SIZE;
+    this.searchTerm = params.get('search') ?? '';
+    const sortBy = params.get('sortBy');
+    this.sortBy =
+      sortBy && SORT_OPTIONS.includes(sortBy) ? sortBy : DEFAULT_SORT_BY;
+    this.isDescending = params.get('order') !== 'asc';
+    this.categoryId = params.get('category') ?? '';
+    this.minPrice = this.readNumber(params, 'minPrice', 0);
+    this.maxPrice = this.readNumber(params, 'maxPrice', 0);
+    this.inStock = params.get('inStock') === 'true';
+  }
+
+  private readNumber(
+    params: ParamMap,
+    key: string,
+    min: number
+  ): number | null {
+    const value = params.get(key);
+    if (value === null || value.trim() === '') return null;
+
+    const parsed = Number(value);
+    return isNaN(parsed) || parsed < min ? null : parsed;
   }
 }
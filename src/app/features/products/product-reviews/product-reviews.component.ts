@@ -0,0 +1,216 @@
+import {
+  Component,
+  Input,
+  OnChanges,
+  OnDestroy,
+  SimpleChanges,
+} from '@angular/core';
+import { Router } from '@angular/router';
+import { Subscription } from 'rxjs';
+import { ReviewService } from 'src/app/core/services/review.service';
+import { NotificationService } from 'src/app/core/services/notification.service';
+import { AuthStore } from 'src/app/store';
+import {
+  ApiError,
+  PaginatedResult,
+  ProductRatingSummary,
+  Review,
+  ReviewEligibility,
+} from 'src/app/shared/models';
+
+const REVIEWS_PAGE_SIZE = 5;
+const MAX_COMMENT_LENGTH = 1000;
+
+/**
+ * Product Reviews Component
+ * Rating summary, paginated reviews and the review form of a product.
+ * The form is only offered to buyers whose order of the product is Completed.
+ */
+@Component({
+  selector: 'app-product-reviews',
+  templateUrl: './product-reviews.component.html',
+  styleUrls: ['./product-reviews.component.css'],
+})
+export class ProductReviewsComponent implements OnChanges, OnDestroy {
+  @Input() productId = '';
+
+  reviews: Review[] = [];
+  summary: ProductRatingSummary | null = null;
+  isLoading = false;
+  errorMessage = '';
+
+  // Pagination
+  currentPage = 1;
+  totalPages = 0;
+  totalItems = 0;
+
+  // Review form
+  isAuthenticated = false;
+  eligibility: ReviewEligibility | null = null;
+  rating = 0;
+  comment = '';
+  isSubmitting = false;
+  readonly maxCommentLength = MAX_COMMENT_LENGTH;
+
+  // Cancelled when the product changes, so a late response of the previous
+  // product (the component is reused by the product strips) is never shown
+  private reviewsSubscription = new Subscription();
+  private summarySubscription = new Subscription();
+  private eligibilitySubscription = new Subscription();
+
+  constructor(
+    private reviewService: ReviewService,
+    private notificationService: NotificationService,
+    private authStore: AuthStore,
+    private router: Router
+  ) {}
+
+  ngOnChanges(changes: SimpleChanges): void {
+    if (changes['productId'] && this.productId) {
+      this.isAuthenticated = this.authStore.isAuthenticated();
+      this.currentPage = 1;
+      this.resetForm();
+      this.loadReviews();
+      this.loadSummary();
+      this.loadEligibility();
+    }
+  }
+
+  ngOnDestroy(): void {
+    this.reviewsSubscription.unsubscribe();
+    this.summarySubscription.unsubscribe();
+    this.eligibilitySubscription.unsubscribe();
+  }
+
+  /**
+   * Load the reviews of the current page
+   */
+  loadReviews(): void {
+    this.isLoading = true;
+    this.errorMessage = '';
+
+    this.reviewsSubscription.unsubscribe();
+    this.reviewsSubscription = this.reviewService
+      .getProductReviews(this.productId, {
+        pageNumber: this.currentPage,
+        pageSize: REVIEWS_PAGE_SIZE,
+        sortBy: 'CreatedAt',
+        isDescending: true,
+      })
+      .subscribe({
+        next: (result: PaginatedResult<Review>) => {
+          this.reviews = result.items;
+          this.totalPages = result.totalPages;
+          this.totalItems = result.totalItems;
+          this.isLoading = false;
+        },
+        error: (error: ApiError) => {
+          console.error('Error loading reviews:', error);
+          this.errorMessage = 'Failed to load reviews. Please try again.';
+          this.isLoading = false;
+        },
+      });
+  }
+
+  goToPage(page: number): void {
+    if (page >= 1 && page <= this.totalPages) {
+      this.currentPage = page;
+      this.loadReviews();
+    }
+  }
+
+  /**
+   * Post the review, then show it at the top of the list
+   */
+  submitReview(): void {
+    if (!this.canSubmit) return;
+
+    const productId = this.productId;
+    this.isSubmitting = true;
+
+    this.reviewService
+      .createReview(productId, {
+        rating: this.rating,
+        comment: this.comment,
+      })
+      .subscribe({
+        next: () => {
+          this.isSubmitting = false;
+          this.notificationService.success('Thank you for your review!');
+          if (productId !== this.productId) return;
+
+          this.eligibility = { canReview: false, hasReviewed: true };
+          this.resetForm();
+          this.currentPage = 1;
+          this.loadReviews();
+          this.loadSummary();
+        },
+        error: (error: ApiError) => {
+          this.isSubmitting = false;
+          console.error('Error submitting review:', error);
+
+          // 401 is handled by AuthInterceptor (refresh or redirect to login)
+          if (error.status !== 401) {
+            this.notificationService.error(error.message);
+          }
+        },
+      });
+  }
+
+  signIn(): void {
+    this.router.navigate(['/login'], {
+      queryParams: { returnUrl: this.router.url },
+    });
+  }
+
+  get canSubmit(): boolean {
+    return (
+      !!this.eligibility?.canReview &&
+      this.rating > 0 &&
+      this.comment.length <= MAX_COMMENT_LENGTH &&
+      !this.isSubmitting
+    );
+  }
+
+  private loadSummary(): void {
+    this.summarySubscription.unsubscribe();
+    this.summarySubscription = this.reviewService
+      .getRatingSummaries([this.productId])
+      .subscribe({
+        next: (summaries) => {
+          this.summary =
+            summaries.find((s) => s.productId === this.productId) ?? null;
+        },
+        error: (error: ApiError) => {
+          console.error('Error loading rating summary:', error);
+          this.summary = null;
+        },
+      });
+  }
+
+  /**
+   * Ask the API whether the user bought the product; guests never can review
+   */
+  private loadEligibility(): void {
+    this.eligibilitySubscription.unsubscribe();
+    this.eligibility = null;
+    if (!this.isAuthenticated) return;
+
+    this.eligibilitySubscription = this.reviewService
+      .getEligibility(this.productId)
+      .subscribe({
+        next: (eligibility) => {
+          this.eligibility = eligibility;
+        },
+        error: (error: ApiError) => {
+          console.error('Error checking review eligibility:', error);
+          this.eligibility = { canReview: false, hasReviewed: false };
+        },
+      });
+  }
+
+  private resetForm(): void {
+    this.rating = 0;
+    this.comment = '';
+  }
+}
@@ -0,0 +1,111 @@
+import { Component, OnDestroy, OnInit } from '@angular/core';
+import { Observable, Subscription } from 'rxjs';
+import { WishlistService } from 'src/app/core/services/wishlist.service';
+import { NotificationService } from 'src/app/core/services/notification.service';
+import { AuthStore } from 'src/app/store';
+import { ApiError, WishlistItem } from 'src/app/shared/models';
+
+/**
+ * Wishlist Component
+ * Products saved for later, for guests and signed-in users alike
+ */
+@Component({
+  selector: 'app-wishlist',
+  templateUrl: './wishlist.component.html',
+  styleUrls: ['./wishlist.component.css'],
+})
+export class WishlistComponent implements OnInit, OnDestroy {
+  items: WishlistItem[] = [];
+  isLoading = false;
+  errorMessage = '';
+  isLoggedIn = false;
+
+  // Items with a pending move/remove request
+  updatingIds = new Set<string>();
+
+  private subscriptions = new Subscription();
+
+  constructor(
+    private wishlistService: WishlistService,
+    private notificationService: NotificationService,
+    private authStore: AuthStore
+  ) {}
+
+  ngOnInit(): void {
+    this.isLoggedIn = this.authStore.isAuthenticated();
+
+    this.subscriptions.add(
+      this.wishlistService.items$.subscribe((items) => (this.items = items))
+    );
+
+    if (this.isLoggedIn) {
+      this.loadWishlist();
+    }
+  }
+
+  ngOnDestroy(): void {
+    this.subscriptions.unsubscribe();
+  }
+
+  loadWishlist(): void {
+    this.isLoading = true;
+    this.errorMessage = '';
+
+    this.wishlistService.getWishlist().subscribe({
+      next: () => {
+        this.isLoading = false;
+      },
+      error: (err: ApiError) => {
+        console.error('Error loading wishlist:', err);
+        this.isLoading = false;
+        this.errorMessage = `Failed to load your wishlist. ${err.message}`;
+      },
+    });
+  }
+
+  moveToCart(item: WishlistItem): void {
+    this.updateItem(
+      item,
+      this.wishlistService.moveToCart(item),
+      `${item.productName} moved to your cart.`
+    );
+  }
+
+  removeItem(item: WishlistItem): void {
+    this.updateItem(
+      item,
+      this.wishlistService.removeItem(item.productId),
+      `${item.productName} removed from your wishlist.`
+    );
+  }
+
+  isUpdating(item: WishlistItem): boolean {
+    return this.updatingIds.has(item.productId);
+  }
+
+  private updateItem(
+    item: WishlistItem,
+    request$: Observable<WishlistItem[]>,
+    successMessage: string
+  ): void {
+    if (this.isUpdating(item)) return;
+
+    this.updatingIds.add(item.productId);
+
+    request$.subscribe({
+      next: () => {
+        this.updatingIds.delete(item.productId);
+        this.notificationService.success(successMessage);
+      },
+      error: (err: ApiError) => {
+        this.updatingIds.delete(item.productId);
+        console.error('Error updating wishlist:', err);
+
+        // 401 is handled by AuthInterceptor (refresh or redirect to login)
+        if (err.status !== 401) {
+          this.notificationService.error(err.message);
+        }
+      },
+    });
+  }
+}
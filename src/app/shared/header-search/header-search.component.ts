@@ -0,0 +1,214 @@
+import { Component, OnDestroy, OnInit } from '@angular/core';
+import { FormControl } from '@angular/forms';
+import { Router } from '@angular/router';
+import { Observable, Subscription, defer, of } from 'rxjs';
+import {
+  catchError,
+  debounceTime,
+  distinctUntilChanged,
+  finalize,
+  map,
+  switchMap,
+  tap,
+} from 'rxjs/operators';
+import { ProductService } from 'src/app/core/services/product.service';
+import { Product } from 'src/app/shared/models';
+
+const RECENT_SEARCHES_STORAGE_KEY = 'recentSearches';
+const MAX_RECENT_SEARCHES = 5;
+const MIN_SEARCH_LENGTH = 2;
+const SUGGESTION_LIMIT = 6;
+
+/**
+ * Header Search Component
+ * Type-ahead product search with suggestions, keyboard navigation
+ * and recent searches kept in localStorage
+ */
+@Component({
+  selector: 'app-header-search',
+  templateUrl: './header-search.component.html',
+  styleUrls: ['./header-search.component.css'],
+})
+export class HeaderSearchComponent implements OnInit, OnDestroy {
+  searchControl = new FormControl('', { nonNullable: true });
+  suggestions: Product[] = [];
+  recentSearches: string[] = [];
+  isOpen = false;
+  isSearching = false;
+  activeIndex = -1;
+
+  private subscriptions = new Subscription();
+
+  constructor(private productService: ProductService, private router: Router) {}
+
+  ngOnInit(): void {
+    this.recentSearches = this.loadRecentSearches();
+
+    // switchMap drops the previous request, so stale results never show up
+    this.subscriptions.add(
+      this.searchControl.valueChanges
+        .pipe(
+          map((term) => term.trim()),
+          debounceTime(300),
+          distinctUntilChanged(),
+          tap(() => (this.activeIndex = -1)),
+          switchMap((term) => this.fetchSuggestions(term))
+        )
+        .subscribe((products) => {
+          this.suggestions = products;
+        })
+    );
+  }
+
+  ngOnDestroy(): void {
+    this.subscriptions.unsubscribe();
+  }
+
+  get term(): string {
+    return this.searchControl.value.trim();
+  }
+
+  /**
+   * Suggestions while typing, recent searches when the box is empty
+   */
+  get showRecent(): boolean {
+    return this.term.length < MIN_SEARCH_LENGTH;
+  }
+
+  get optionCount(): number {
+    return this.showRecent
+      ? this.recentSearches.length
+      : this.suggestions.length;
+  }
+
+  open(): void {
+    this.isOpen = true;
+  }
+
+  close(): void {
+    this.isOpen = false;
+    this.activeIndex = -1;
+  }
+
+  /**
+   * Arrow keys move through the options, Enter picks one, Escape closes
+   */
+  onKeydown(event: KeyboardEvent): void {
+    switch (event.key) {
+      case 'ArrowDown':
+        event.preventDefault();
+        this.open();
+        if (this.optionCount > 0) {
+          this.activeIndex = (this.activeIndex + 1) % this.optionCount;
+        }
+        break;
+      case 'ArrowUp':
+        event.preventDefault();
+        if (this.optionCount > 0) {
+          this.activeIndex =
+            this.activeIndex <= 0 ? this.optionCount - 1 : this.activeIndex - 1;
+        }
+        break;
+      case 'Enter':
+        event.preventDefault();
+        this.selectActive();
+        break;
+      case 'Escape':
+        this.close();
+        break;
+    }
+  }
+
+  /**
+   * Go to the product list filtered by the search term
+   */
+  submitSearch(term: string = this.term): void {
+    if (!term) return;
+
+    this.saveRecentSearch(term);
+    this.searchControl.setValue(term, { emitEvent: false });
+    this.close();
+    this.router.navigate(['/products'], { queryParams: { search: term } });
+  }
+
+  selectProduct(product: Product): void {
+    this.saveRecentSearch(this.term);
+    this.close();
+    this.searchControl.setValue('');
+    this.router.navigate(['/products', product.id]);
+  }
+
+  removeRecentSearch(term: string, event: Event): void {
+    event.stopPropagation();
+    this.recentSearches = this.recentSearches.filter((t) => t !== term);
+    this.storeRecentSearches();
+  }
+
+  clearRecentSearches(): void {
+    this.recentSearches = [];
+    this.storeRecentSearches();
+  }
+
+  private selectActive(): void {
+    if (this.activeIndex < 0) {
+      this.submitSearch();
+    } else if (this.showRecent) {
+      this.submitSearch(this.recentSearches[this.activeIndex]);
+    } else {
+      this.selectProduct(this.suggestions[this.activeIndex]);
+    }
+  }
+
+  private fetchSuggestions(term: string): Observable<Product[]> {
+    if (term.length < MIN_SEARCH_LENGTH) {
+      this.isSearching = false;
+      return of([]);
+    }
+
+    // Flag is raised on subscribe, after switchMap has finalized the old request
+    return defer(() => {
+      this.isSearching = true;
+      return this.productService.getProducts({
+        searchTerm: term,
+        pageNumber: 1,
+        pageSize: SUGGESTION_LIMIT,
+      });
+    }).pipe(
+      map((result) => result.items),
+      catchError((error) => {
+        console.error('Error loading search suggestions:', error);
+        return of([]);
+      }),
+      finalize(() => (this.isSearching = false))
+    );
+  }
+
+  private saveRecentSearch(term: string): void {
+    if (!term) return;
+
+    this.recentSearches = [
+      term,
+      ...this.recentSearches.filter(
+        (t) => t.toLowerCase() !== term.toLowerCase()
+      ),
+    ].slice(0, MAX_RECENT_SEARCHES);
+    this.storeRecentSearches();
+  }
+
+  private loadRecentSearches(): string[] {
+    try {
+      const json = localStorage.getItem(RECENT_SEARCHES_STORAGE_KEY);
+      const terms = json ? JSON.parse(json) : [];
+      return Array.isArray(terms) ? terms.slice(0, MAX_RECENT_SEARCHES) : [];
+    } catch {
+      return [];
+    }
+  }
+
+  private storeRecentSearches(): void {
+    localStorage.setItem(
+      RECENT_SEARCHES_STORAGE_KEY,
+      JSON.stringify(this.recentSearches)
+    );
+  }
+}
@@ -1,9 +1,26 @@
 import { Component, OnInit } from '@angular/core';
 import { Router } from '@angular/router';
+import { combineLatest } from 'rxjs';
+import { distinctUntilChanged, map, switchMap } from 'rxjs/operators';
 import { AuthService } from 'src/app/core/services/auth.service';
-import { AuthStore } from 'src/app/store/auth.store';
+import {
+  AuthStore,
+  CartStore,
+  CouponStore,
+  GuestCartStore,
+} from 'src/app/store';
 import { CartService } from 'src/app/core/services/cart.service';
-import { Cart, CartItem } from 'src/app/shared/models/cart.model';
+import { WishlistService } from 'src/app/core/services/wishlist.service';
+import { CouponService } from 'src/app/core/services/coupon.service';
+import { NotificationService } from 'src/app/core/services/notification.service';
+import { getMaxOrderQuantity } from 'src/app/core/config/inventory';
+import {
+  ApiError,
+  Cart,
+  CartItem,
+  Coupon,
+  WishlistItem,
+} from 'src/app/shared/models';
 
 @Component({
   selector: 'app-header',
@@ -17,11 +34,20 @@ export class HeaderComponent implements OnInit {
   cart: Cart | null = null;
   isLoadingCart = false;
   updatingItemId: string | null = null;
+  wishlistItems: WishlistItem[] = [];
+  movingProductId: string | null = null;
+  coupon: Coupon | null = null;
 
   constructor(
     private authService: AuthService,
     private authStore: AuthStore,
     private cartService: CartService,
+    private cartStore: CartStore,
+    private guestCartStore: GuestCartStore,
+    private wishlistService: WishlistService,
+    private couponService: CouponService,
+    private couponStore: CouponStore,
+    private notificationService: NotificationService,
     private router: Router
   ) {}
 
@@ -30,34 +56,79 @@ export class HeaderComponent implements OnInit {
     this.authStore.auth$.subscribe((auth) => {
       this.isLoggedIn = auth.isAuthenticated;
       this.userEmail = auth.email || '';
+    });
+
+    // Load cart and wishlist when a user signs in, not on token refreshes
+    this.authStore.auth$
+      .pipe(
+        map((auth) => (auth.isAuthenticated ? auth.userId : null)),
+        distinctUntilChanged()
+      )
+      .subscribe((userId) => {
+        if (userId) {
+          this.loadCart();
+          this.loadWishlist();
+        }
+      });
+
+    // Show the server cart when logged in, the guest cart otherwise
+    this.authStore.auth$
+      .pipe(
+        map((auth) => auth.isAuthenticated),
+        distinctUntilChanged(),
+        switchMap((isLoggedIn) =>
+          isLoggedIn
+            ? combineLatest([this.cartStore.cart$, this.cartStore.itemCount$])
+            : combineLatest([
+                this.guestCartStore.cart$,
+                this.guestCartStore.itemCount$,
+              ])
+        )
+      )
+      .subscribe(([cart, itemCount]) => {
+        this.cart = cart;
+        this.cartItemCount = itemCount;
+      });
+
+    this.cartStore.isLoading$.subscribe((isLoading) => {
+      this.isLoadingCart = isLoading;
+    });
 
-      // Load cart if user is logged in
-      if (this.isLoggedIn) {
-        this.loadCart();
-      } else {
-        this.cart = null;
-        this.cartItemCount = 0;
-      }
+    // Server wishlist when logged in, guest wishlist otherwise
+    this.wishlistService.items$.subscribe((items) => {
+      this.wishlistItems = items;
     });
 
-    // Subscribe to cart changes
-    this.cartService.cart$.subscribe((cart) => {
-      this.cart = cart;
-      this.cartItemCount = cart
-        ? cart.items.reduce((sum, item) => sum + item.quantity, 0)
-        : 0;
+    this.couponStore.coupon$.subscribe((coupon) => {
+      this.coupon = coupon;
     });
   }
 
+  /**
+   * Discount of the applied promo code on the current cart
+   */
+  get cartDiscount(): number {
+    return this.coupon && this.cart
+      ? this.couponService.getDiscount(this.coupon, this.cart.totalAmount)
+      : 0;
+  }
+
   loadCart(): void {
-    this.isLoadingCart = true;
+    if (!this.isLoggedIn) return;
+
     this.cartService.getCart().subscribe({
-      next: () => {
-        this.isLoadingCart = false;
-      },
       error: (err) => {
         console.error('Error loading cart:', err);
-        this.isLoadingCart = false;
+      },
+    });
+  }
+
+  loadWishlist(): void {
+    if (!this.isLoggedIn) return;
+
+    this.wishlistService.getWishlist().subscribe({
+      error: (err) => {
+        console.error('Error loading wishlist:', err);
       },
     });
   }
@@ -105,22 +176,26 @@ export class HeaderComponent implements OnInit {
     document.body.style.paddingRight = '';
   }
 
+  /**
+   * Quantity changes are applied optimistically; CartService debounces
+   * rapid clicks into one request and rolls back on failure
+   */
   increaseQuantity(item: CartItem): void {
-    this.updatingItemId = item.id;
-    const newQuantity = item.quantity + 1;
-
-    this.cartService
-      .updateCartItem(item.id, { quantity: newQuantity })
-      .subscribe({
-        next: () => {
-          this.updatingItemId = null;
-        },
-        error: (err) => {
-          console.error('Error updating cart item:', err);
-          alert('Failed to update quantity. Please try again.');
-          this.updatingItemId = null;
-        },
-      });
+    if (!this.canIncrease(item)) return;
+
+    if (!this.isLoggedIn) {
+      this.guestCartStore.updateQuantity(item.productId, item.quantity + 1);
+      return;
+    }
+
+    this.cartService.changeQuantity(item, item.quantity + 1);
+  }
+
+  /**
+   * A line can't hold more units than are in stock
+   */
+  canIncrease(item: CartItem): boolean {
+    return item.quantity < getMaxOrderQuantity(item.stockQuantity);
   }
 
   decreaseQuantity(item: CartItem): void {
@@ -130,21 +205,12 @@ export class HeaderComponent implements OnInit {
       return;
     }
 
-    this.updatingItemId = item.id;
-    const newQuantity = item.quantity - 1;
-
-    this.cartService
-      .updateCartItem(item.id, { quantity: newQuantity })
-      .subscribe({
-        next: () => {
-          this.updatingItemId = null;
-        },
-        error: (err) => {
-          console.error('Error updating cart item:', err);
-          alert('Failed to update quantity. Please try again.');
-          this.updatingItemId = null;
-        },
-      });
+    if (!this.isLoggedIn) {
+      this.guestCartStore.updateQuantity(item.productId, item.quantity - 1);
+      return;
+    }
+
+    this.cartService.changeQuantity(item, item.quantity - 1);
   }
 
   removeItem(item: CartItem): void {
@@ -152,16 +218,64 @@ export class HeaderComponent implements OnInit {
       return;
     }
 
+    if (!this.isLoggedIn) {
+      this.guestCartStore.removeItem(item.productId);
+      return;
+    }
+
     this.updatingItemId = item.id;
 
     this.cartService.removeCartItem(item.id).subscribe({
       next: () => {
         this.updatingItemId = null;
       },
-      error: (err) => {
+      error: (err: ApiError) => {
         console.error('Error removing cart item:', err);
-        alert('Failed to remove item. Please try again.');
+        this.notificationService.error(`Failed to remove item. ${err.message}`);
+        this.updatingItemId = null;
+      },
+    });
+  }
+
+  /**
+   * Move a cart item to the wishlist
+   */
+  saveForLater(item: CartItem): void {
+    this.updatingItemId = item.id;
+
+    this.wishlistService.saveForLater(item).subscribe({
+      next: () => {
         this.updatingItemId = null;
+        this.notificationService.success(
+          `${item.productName} saved for later.`
+        );
+      },
+      error: (err: ApiError) => {
+        console.error('Error saving item for later:', err);
+        this.notificationService.error(
+          `Failed to save ${item.productName} for later. ${err.message}`
+        );
+        this.updatingItemId = null;
+      },
+    });
+  }
+
+  /**
+   * Move a saved product back into the cart
+   */
+  moveToCart(item: WishlistItem): void {
+    this.movingProductId = item.productId;
+
+    this.wishlistService.moveToCart(item).subscribe({
+      next: () => {
+        this.movingProductId = null;
+      },
+      error: (err: ApiError) => {
+        console.error('Error moving item to cart:', err);
+        this.notificationService.error(
+          `Failed to move ${item.productName} to cart. ${err.message}`
+        );
+        this.movingProductId = null;
       },
     });
   }
@@ -18,6 +18,25 @@ export interface PaginationParams {
   isDescending?: boolean;
 }
 
+/**
+ * Progress of an upload request
+ * `done` is set once the server has responded, with `result` when the
+ * response has a body; `retryAttempt` while waiting to retry after a
+ * network failure
+ */
+export interface UploadState<T> {
+  progress: number;
+  done?: boolean;
+  result?: T;
+  retryAttempt?: number;
+}
+
+/**
+ * Normalized HTTP error thrown by ErrorInterceptor
+ * `message` is always safe to show to the user
+ */
 export interface ApiError {
   message: string;
+  status?: number;
+  validationErrors?: { [field: string]: string[] };
 }
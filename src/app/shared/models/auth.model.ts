@@ -14,9 +14,15 @@ export interface LoginResponse {
   expiresAt: string;
   userId: string;
   email: string;
+  refreshToken?: string;
   roles?: string[]; // Roles will be decoded from JWT token
 }
 
+export interface RefreshTokenRequest {
+  token: string;
+  refreshToken: string;
+}
+
 export interface RegisterRequest {
   fullName: string;
   email: string;
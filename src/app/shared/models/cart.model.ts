@@ -17,6 +17,7 @@ export interface CartItem {
   quantity: number;
   totalPrice: number;
   imageUrl?: string;
+  stockQuantity?: number;
 }
 
 export interface AddCartItemRequest {
@@ -27,3 +28,29 @@ export interface AddCartItemRequest {
 export interface UpdateCartItemRequest {
   quantity: number;
 }
+
+/**
+ * Guest cart item that could not be merged as-is into the server cart
+ */
+export interface CartMergeConflict {
+  productName: string;
+  reason: 'already-in-cart' | 'price-changed' | 'failed';
+  message: string;
+}
+
+/**
+ * Cart line asking for more units than are left in stock
+ * `available` is 0 when the product sold out or no longer exists
+ */
+export interface CartStockIssue {
+  itemId: string;
+  productId: string;
+  productName: string;
+  requested: number;
+  available: number;
+}
+
+export interface CartMergeResult {
+  mergedCount: number;
+  conflicts: CartMergeConflict[];
+}
@@ -0,0 +1,51 @@
+/**
+ * Coupon (promo code) related models
+ */
+
+import { PaginationParams } from './api.model';
+
+/**
+ * `percentage` takes discountValue percent off the subtotal,
+ * `fixed` takes discountValue off (never more than the subtotal)
+ */
+export type CouponDiscountType = 'percentage' | 'fixed';
+
+export interface Coupon {
+  id: string;
+  code: string;
+  description?: string;
+  discountType: CouponDiscountType;
+  discountValue: number;
+  minimumSpend?: number;
+  expiresAt?: string;
+  isActive: boolean;
+  usageCount?: number;
+  createdAt?: string;
+}
+
+export interface CreateCouponRequest {
+  code: string;
+  description?: string;
+  discountType: CouponDiscountType;
+  discountValue: number;
+  minimumSpend?: number;
+  expiresAt?: string;
+  isActive: boolean;
+}
+
+export type UpdateCouponRequest = CreateCouponRequest;
+
+/**
+ * Check a code against the current cart subtotal
+ * The API answers with the coupon, or 400/404 and the reason it can't be used
+ */
+export interface ValidateCouponRequest {
+  code: string;
+  subtotal: number;
+}
+
+export interface CouponQueryParams extends PaginationParams {
+  isActive?: boolean;
+}
+
+export const MAX_COUPON_CODE_LENGTH = 32;
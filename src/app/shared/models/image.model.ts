@@ -0,0 +1,36 @@
+/**
+ * Client-side image processing models
+ */
+
+export interface ImageProcessingOptions {
+  maxDimension: number;
+  quality: number;
+  outputType: 'image/webp' | 'image/jpeg';
+  squareCrop: boolean;
+}
+
+export interface ProcessedImage {
+  file: File;
+  previewUrl: string;
+  width: number;
+  height: number;
+  originalSize: number;
+}
+
+/**
+ * Outcome of processing one file; `error` is set when it failed
+ */
+export interface ImageProcessingResult {
+  source: File;
+  image?: ProcessedImage;
+  error?: string;
+}
+
+/**
+ * Image selected in a form, kept with its source so it can be re-processed
+ */
+export interface PendingImage {
+  source: File;
+  processed: ProcessedImage;
+  squareCrop: boolean;
+}
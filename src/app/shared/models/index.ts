@@ -5,7 +5,14 @@
 
 export * from './api.model';
 export * from './auth.model';
+export * from './user.model';
 export * from './product.model';
 export * from './cart.model';
+export * from './wishlist.model';
+export * from './coupon.model';
 export * from './order.model';
 export * from './category.model';
+export * from './notification.model';
+export * from './image.model';
+export * from './invoice.model';
+export * from './review.model';
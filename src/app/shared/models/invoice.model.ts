@@ -0,0 +1,36 @@
+/**
+ * Invoice related models
+ */
+
+import { OrderStatus } from './order.model';
+
+export interface InvoiceLine {
+  description: string;
+  quantity: number;
+  unitPrice: number;
+  amount: number;
+}
+
+/**
+ * Invoice built from an order; amounts are tax-inclusive like the order total
+ */
+export interface Invoice {
+  invoiceNumber: string;
+  orderId: string;
+  orderDate: string;
+  issueDate: string;
+  orderStatus: OrderStatus;
+  sellerName: string;
+  sellerAddress: string[];
+  billingAddress: string;
+  paymentMethod: string;
+  lines: InvoiceLine[];
+  subtotal: number;
+  discountLabel: string;
+  discount: number;
+  shipping: number;
+  taxLabel: string;
+  // null when the tax rate is unknown; the tax line is left out then
+  tax: number | null;
+  total: number;
+}
@@ -0,0 +1,22 @@
+/**
+ * Toast notification models
+ */
+
+export type NotificationType = 'success' | 'info' | 'warning' | 'error';
+
+export interface NotificationAction {
+  label: string;
+  callback: () => void;
+}
+
+export interface NotificationOptions {
+  title?: string;
+  duration?: number; // milliseconds, 0 keeps the toast until dismissed
+  actions?: NotificationAction[];
+}
+
+export interface Notification extends NotificationOptions {
+  id: number;
+  type: NotificationType;
+  message: string;
+}
@@ -2,11 +2,16 @@
  * Order related models
  */
 
+import { PaginationParams } from './api.model';
+
 export interface Order {
   id: string;
   userId: string;
   orderDate: string;
+  // Amount charged, after the coupon discount
   totalAmount: number;
+  discountAmount?: number;
+  couponCode?: string;
   status: OrderStatus;
   paymentMethod: PaymentMethod;
   itemCount?: number;
@@ -14,7 +19,20 @@ export interface Order {
 
 export interface OrderDetail extends Order {
   shippingAddress: string;
+  // Tax rate included in the prices, e.g. 0.2 for 20%
+  taxRate?: number;
   orderItems?: OrderItem[];
+  statusHistory?: OrderStatusChange[];
+}
+
+/**
+ * One entry of the status history; `changedBy` is the user's email
+ */
+export interface OrderStatusChange {
+  status: OrderStatus;
+  changedAt: string;
+  changedBy?: string;
+  reason?: string;
 }
 
 export interface OrderItem {
@@ -29,10 +47,30 @@ export interface OrderItem {
 export interface CreateOrderRequest {
   shippingAddress: string;
   paymentMethod: PaymentMethod;
+  couponCode?: string;
+}
+
+/**
+ * Admin order query: pagination, search (order id or customer) and filters
+ * Dates are yyyy-MM-dd and both ends of the range are inclusive
+ */
+export interface OrderQueryParams extends PaginationParams {
+  status?: OrderStatus;
+  paymentMethod?: PaymentMethod;
+  fromDate?: string;
+  toDate?: string;
+}
+
+/**
+ * Customer cancellation of an order that has not shipped yet
+ */
+export interface CancelOrderRequest {
+  reason: string;
 }
 
 export interface UpdateOrderStatusRequest {
   status: OrderStatus;
+  reason?: string;
 }
 
 export enum OrderStatus {
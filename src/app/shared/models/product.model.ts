@@ -2,12 +2,16 @@
  * Product related models
  */
 
+import { PaginationParams } from './api.model';
+
 export interface Product {
   id: string;
   name: string;
   description?: string;
   price: number;
   mainImageUrl?: string;
+  // Units available; undefined when the API doesn't report stock
+  stockQuantity?: number;
 }
 
 export interface ProductDetail extends Product {
@@ -21,6 +25,7 @@ export interface ProductImage {
   id: string;
   imageUrl: string;
   isMain: boolean;
+  displayOrder?: number;
 }
 
 export interface CreateProductRequest {
@@ -28,10 +33,87 @@ export interface CreateProductRequest {
   description?: string;
   price: number;
   categoryId: string;
+  stockQuantity?: number;
 }
 
 export interface UpdateProductRequest {
   name: string;
   description?: string;
   price: number;
+  categoryId?: string;
+  // Left unchanged when omitted
+  stockQuantity?: number;
+}
+
+export interface ReorderProductImagesRequest {
+  imageIds: string[];
+}
+
+/**
+ * Catalog query: pagination plus the faceted filters
+ */
+export interface ProductQueryParams extends PaginationParams {
+  categoryId?: string;
+  minPrice?: number;
+  maxPrice?: number;
+  inStock?: boolean;
+}
+
+/**
+ * Bulk actions of the admin product table
+ */
+export type BulkProductAction = 'delete' | 'category' | 'price';
+
+export interface BulkProductResult {
+  productId: string;
+  productName: string;
+  success: boolean;
+  error?: string;
+}
+
+/**
+ * Catalog import/export
+ */
+export type CatalogExportFormat = 'csv' | 'json';
+
+export type ProductImportField =
+  | 'id'
+  | 'name'
+  | 'description'
+  | 'price'
+  | 'stock'
+  | 'category';
+
+/**
+ * Column index of the CSV for each field (null when not mapped)
+ */
+export type ProductColumnMapping = Record<ProductImportField, number | null>;
+
+export type ProductImportAction = 'create' | 'update' | 'unchanged' | 'invalid';
+
+export interface ProductFieldChange {
+  field: ProductImportField;
+  from: string;
+  to: string;
+}
+
+export interface ProductImportRow {
+  rowNumber: number;
+  request: CreateProductRequest;
+  action: ProductImportAction;
+  existing?: ProductDetail;
+  changes: ProductFieldChange[];
+  errors: string[];
+}
+
+export interface ProductImportFailure {
+  rowNumber: number;
+  name: string;
+  error: string;
+}
+
+export interface ProductImportProgress {
+  completed: number;
+  total: number;
+  failures: ProductImportFailure[];
 }
@@ -0,0 +1,48 @@
+/**
+ * Product review related models
+ */
+
+import { PaginationParams } from './api.model';
+
+export interface Review {
+  id: string;
+  productId: string;
+  productName?: string;
+  userId: string;
+  userName: string;
+  rating: number;
+  comment?: string;
+  createdAt: string;
+  isHidden: boolean;
+}
+
+export interface CreateReviewRequest {
+  rating: number;
+  comment?: string;
+}
+
+/**
+ * Average rating of a product over its visible reviews
+ */
+export interface ProductRatingSummary {
+  productId: string;
+  averageRating: number;
+  reviewCount: number;
+}
+
+/**
+ * Whether the current user may review a product
+ * Only buyers with a Completed order containing the product can review it,
+ * once per product
+ */
+export interface ReviewEligibility {
+  canReview: boolean;
+  hasReviewed: boolean;
+}
+
+export interface ReviewQueryParams extends PaginationParams {
+  isHidden?: boolean;
+}
+
+export const MIN_REVIEW_RATING = 1;
+export const MAX_REVIEW_RATING = 5;
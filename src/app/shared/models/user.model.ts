@@ -0,0 +1,28 @@
+/**
+ * User management related models
+ */
+
+import { Order } from './order.model';
+
+export const USER_ROLES = ['Admin', 'Customer'] as const;
+export type UserRole = (typeof USER_ROLES)[number];
+
+export interface User {
+  id: string;
+  fullName: string;
+  email: string;
+  roles?: string[];
+  isLocked?: boolean;
+}
+
+export interface UserDetail extends User {
+  createdAt: string;
+  phoneNumber?: string;
+  lockoutEnd?: string | null;
+  orderDetails?: Order[];
+}
+
+export interface UpdateUserRequest {
+  fullName: string;
+  email: string;
+}
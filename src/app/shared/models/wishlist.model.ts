@@ -0,0 +1,17 @@
+/**
+ * Wishlist related models
+ */
+
+export interface WishlistItem {
+  productId: string;
+  productName: string;
+  price: number;
+  imageUrl?: string;
+  // Units available when the product was saved; undefined when unknown
+  stockQuantity?: number;
+  addedAt: string;
+}
+
+export interface AddWishlistItemRequest {
+  productId: string;
+}
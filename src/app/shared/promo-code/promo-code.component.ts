@@ -0,0 +1,94 @@
+import { Component, Input, OnDestroy, OnInit } from '@angular/core';
+import { Subscription } from 'rxjs';
+import { CouponService } from 'src/app/core/services/coupon.service';
+import { CouponStore } from 'src/app/store';
+import {
+  ApiError,
+  Coupon,
+  MAX_COUPON_CODE_LENGTH,
+} from 'src/app/shared/models';
+
+/**
+ * Promo Code Component
+ * Applies a coupon to the cart, or shows the applied one with a Remove link
+ */
+@Component({
+  selector: 'app-promo-code',
+  templateUrl: './promo-code.component.html',
+  styleUrls: ['./promo-code.component.css'],
+})
+export class PromoCodeComponent implements OnInit, OnDestroy {
+  @Input() subtotal = 0;
+
+  readonly maxCodeLength = MAX_COUPON_CODE_LENGTH;
+
+  coupon: Coupon | null = null;
+  code = '';
+  isApplying = false;
+  errorMessage = '';
+
+  private subscription = new Subscription();
+
+  constructor(
+    private couponService: CouponService,
+    private couponStore: CouponStore
+  ) {}
+
+  ngOnInit(): void {
+    this.subscription = this.couponStore.coupon$.subscribe(
+      (coupon) => (this.coupon = coupon)
+    );
+  }
+
+  ngOnDestroy(): void {
+    this.subscription.unsubscribe();
+  }
+
+  get discount(): number {
+    return this.coupon
+      ? this.couponService.getDiscount(this.coupon, this.subtotal)
+      : 0;
+  }
+
+  get isExpired(): boolean {
+    return !!this.coupon && this.couponService.isExpired(this.coupon);
+  }
+
+  /**
+   * How much more the cart needs before the applied coupon counts
+   */
+  get missingSpend(): number {
+    return Math.max(0, (this.coupon?.minimumSpend ?? 0) - this.subtotal);
+  }
+
+  apply(): void {
+    if (this.isApplying) return;
+
+    this.isApplying = true;
+    this.errorMessage = '';
+
+    this.couponService.applyCoupon(this.code, this.subtotal).subscribe({
+      next: () => {
+        this.isApplying = false;
+        this.code = '';
+      },
+      error: (err: ApiError) => {
+        this.isApplying = false;
+        console.error('Error applying promo code:', err);
+
+        // 401 is handled by AuthInterceptor (refresh or redirect to login)
+        if (err.status !== 401) {
+          this.errorMessage =
+            err.status === 404
+              ? 'This promo code does not exist.'
+              : err.message;
+        }
+      },
+    });
+  }
+
+  remove(): void {
+    this.couponService.removeCoupon();
+    this.errorMessage = '';
+  }
+}
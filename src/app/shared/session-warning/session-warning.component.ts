@@ -0,0 +1,113 @@
+import { Component, OnDestroy, OnInit } from '@angular/core';
+import { Router } from '@angular/router';
+import { Subscription, interval } from 'rxjs';
+import { AuthService } from 'src/app/core/services/auth.service';
+import { AuthStore } from 'src/app/store/auth.store';
+
+/**
+ * Session Warning Component
+ * Warns before the JWT expires, lets the user extend the session,
+ * and sends them to login once the session has expired
+ */
+@Component({
+  selector: 'app-session-warning',
+  templateUrl: './session-warning.component.html',
+  styleUrls: ['./session-warning.component.css'],
+})
+export class SessionWarningComponent implements OnInit, OnDestroy {
+  isVisible = false;
+  secondsLeft = 0;
+  canRefresh = false;
+  isRefreshing = false;
+  errorMessage = '';
+
+  private subscriptions = new Subscription();
+  private countdown: Subscription | null = null;
+
+  constructor(
+    private authService: AuthService,
+    private authStore: AuthStore,
+    private router: Router
+  ) {}
+
+  ngOnInit(): void {
+    this.subscriptions.add(
+      this.authStore.sessionExpiring$.subscribe((expiring) => {
+        this.isVisible = expiring;
+        this.errorMessage = '';
+        this.canRefresh = this.authService.canRefresh();
+        if (expiring) {
+          this.startCountdown();
+        } else {
+          this.stopCountdown();
+        }
+      })
+    );
+
+    this.subscriptions.add(
+      this.authStore.sessionExpired$.subscribe(() => {
+        const currentUrl = this.router.url;
+        this.router.navigate(['/login'], {
+          queryParams: {
+            returnUrl: currentUrl.startsWith('/login') ? undefined : currentUrl,
+            expired: true,
+          },
+        });
+      })
+    );
+  }
+
+  ngOnDestroy(): void {
+    this.subscriptions.unsubscribe();
+    this.stopCountdown();
+  }
+
+  /**
+   * Remaining time formatted as m:ss
+   */
+  get timeLeft(): string {
+    const minutes = Math.floor(this.secondsLeft / 60);
+    const seconds = this.secondsLeft % 60;
+    return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+  }
+
+  /**
+   * Extend the session using the refresh token
+   */
+  staySignedIn(): void {
+    this.isRefreshing = true;
+    this.errorMessage = '';
+
+    this.authService.refreshToken().subscribe({
+      next: () => {
+        this.isRefreshing = false;
+      },
+      error: (error) => {
+        console.error('Error refreshing session:', error);
+        this.errorMessage = 'Could not extend your session.';
+        this.isRefreshing = false;
+      },
+    });
+  }
+
+  logout(): void {
+    this.authService.logout();
+    this.router.navigate(['/login']);
+  }
+
+  private startCountdown(): void {
+    this.stopCountdown();
+    this.updateSecondsLeft();
+    this.countdown = interval(1000).subscribe(() => this.updateSecondsLeft());
+  }
+
+  private stopCountdown(): void {
+    this.countdown?.unsubscribe();
+    this.countdown = null;
+  }
+
+  private updateSecondsLeft(): void {
+    const remaining = this.authStore.getTimeUntilExpiry() ?? 0;
+    this.secondsLeft = Math.max(0, Math.ceil(remaining / 1000));
+  }
+}
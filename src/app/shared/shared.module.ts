@@ -0,0 +1,14 @@
+import { NgModule } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { StarRatingComponent } from './star-rating/star-rating.component';
+import { StockBadgeComponent } from './stock-badge/stock-badge.component';
+
+/**
+ * Components used by the eagerly loaded app and the lazy admin area
+ */
+@NgModule({
+  declarations: [StarRatingComponent, StockBadgeComponent],
+  imports: [CommonModule],
+  exports: [StarRatingComponent, StockBadgeComponent],
+})
+export class SharedModule {}
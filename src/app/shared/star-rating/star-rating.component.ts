@@ -0,0 +1,45 @@
+import { Component, EventEmitter, Input, Output } from '@angular/core';
+import { MAX_REVIEW_RATING } from 'src/app/shared/models';
+
+type StarIcon = 'bi-star-fill' | 'bi-star-half' | 'bi-star';
+
+/**
+ * Star Rating Component
+ * Shows a 0-5 rating as stars (half stars for averages); when not readonly
+ * the stars are buttons that emit the picked rating
+ */
+@Component({
+  selector: 'app-star-rating',
+  templateUrl: './star-rating.component.html',
+  styleUrls: ['./star-rating.component.css'],
+})
+export class StarRatingComponent {
+  @Input() rating = 0;
+  @Input() readonly = true;
+  @Output() ratingChange = new EventEmitter<number>();
+
+  readonly stars = Array.from({ length: MAX_REVIEW_RATING }, (_, i) => i + 1);
+  hoverRating: number | null = null;
+
+  /**
+   * Icon of a star, previewing the hovered rating while picking
+   */
+  getIcon(star: number): StarIcon {
+    const rating = this.hoverRating ?? this.rating;
+    if (rating >= star - 0.25) return 'bi-star-fill';
+    if (rating >= star - 0.75) return 'bi-star-half';
+    return 'bi-star';
+  }
+
+  select(star: number): void {
+    if (this.readonly) return;
+    this.rating = star;
+    this.ratingChange.emit(star);
+  }
+
+  preview(star: number | null): void {
+    if (!this.readonly) {
+      this.hoverRating = star;
+    }
+  }
+}
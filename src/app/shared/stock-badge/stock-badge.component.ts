@@ -0,0 +1,20 @@
+import { Component, Input } from '@angular/core';
+import { StockStatus, getStockStatus } from 'src/app/core/config/inventory';
+
+/**
+ * Stock Badge Component
+ * "Out of stock" / "Only N left" badge; nothing (or "In stock") otherwise
+ */
+@Component({
+  selector: 'app-stock-badge',
+  templateUrl: './stock-badge.component.html',
+  styleUrls: ['./stock-badge.component.css'],
+})
+export class StockBadgeComponent {
+  @Input() stockQuantity?: number;
+  @Input() showInStock = false;
+
+  get status(): StockStatus {
+    return getStockStatus(this.stockQuantity);
+  }
+}
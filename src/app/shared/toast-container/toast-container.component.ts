@@ -0,0 +1,61 @@
+import { Component } from '@angular/core';
+import { NotificationService } from 'src/app/core/services/notification.service';
+import {
+  Notification,
+  NotificationAction,
+  NotificationType,
+} from 'src/app/shared/models';
+
+/**
+ * Toast Container Component
+ * Renders stacked notifications from NotificationService
+ */
+@Component({
+  selector: 'app-toast-container',
+  templateUrl: './toast-container.component.html',
+  styleUrls: ['./toast-container.component.css'],
+})
+export class ToastContainerComponent {
+  notifications$ = this.notificationService.notifications$;
+
+  constructor(private notificationService: NotificationService) {}
+
+  dismiss(notification: Notification): void {
+    this.notificationService.dismiss(notification.id);
+  }
+
+  runAction(notification: Notification, action: NotificationAction): void {
+    action.callback();
+    this.dismiss(notification);
+  }
+
+  getToastClass(type: NotificationType): string {
+    switch (type) {
+      case 'success':
+        return 'text-bg-success';
+      case 'info':
+        return 'text-bg-info';
+      case 'warning':
+        return 'text-bg-warning';
+      case 'error':
+        return 'text-bg-danger';
+    }
+  }
+
+  getIcon(type: NotificationType): string {
+    switch (type) {
+      case 'success':
+        return 'bi-check-circle-fill';
+      case 'info':
+        return 'bi-info-circle-fill';
+      case 'warning':
+        return 'bi-exclamation-triangle-fill';
+      case 'error':
+        return 'bi-x-octagon-fill';
+    }
+  }
+
+  trackById(_: number, notification: Notification): number {
+    return notification.id;
+  }
+}
@@ -0,0 +1,84 @@
+import {
+  Component,
+  Input,
+  OnChanges,
+  OnDestroy,
+  SimpleChanges,
+} from '@angular/core';
+import { Subscription } from 'rxjs';
+import { WishlistService } from 'src/app/core/services/wishlist.service';
+import { NotificationService } from 'src/app/core/services/notification.service';
+import { ApiError, Product } from 'src/app/shared/models';
+
+/**
+ * Wishlist Button Component
+ * Heart toggle that saves a product to the wishlist or removes it
+ */
+@Component({
+  selector: 'app-wishlist-button',
+  templateUrl: './wishlist-button.component.html',
+  styleUrls: ['./wishlist-button.component.css'],
+})
+export class WishlistButtonComponent implements OnChanges, OnDestroy {
+  @Input() product!: Product;
+  @Input() showLabel = false;
+
+  isSaved = false;
+  isSaving = false;
+  isReady = false;
+
+  private subscription = new Subscription();
+  private readySubscription: Subscription;
+
+  constructor(
+    private wishlistService: WishlistService,
+    private notificationService: NotificationService
+  ) {
+    this.readySubscription = this.wishlistService.isReady$.subscribe(
+      (isReady) => (this.isReady = isReady)
+    );
+  }
+
+  ngOnChanges(changes: SimpleChanges): void {
+    if (changes['product']) {
+      this.subscription.unsubscribe();
+      this.subscription = this.wishlistService
+        .isInWishlist$(this.product.id)
+        .subscribe((isSaved) => (this.isSaved = isSaved));
+    }
+  }
+
+  ngOnDestroy(): void {
+    this.subscription.unsubscribe();
+    this.readySubscription.unsubscribe();
+  }
+
+  toggle(): void {
+    if (this.isSaving || !this.isReady) return;
+
+    const wasSaved = this.isSaved;
+    this.isSaving = true;
+
+    this.wishlistService.toggleItem(this.product).subscribe({
+      next: () => {
+        this.isSaving = false;
+        this.notificationService.success(
+          wasSaved
+            ? `${this.product.name} removed from your wishlist.`
+            : `${this.product.name} saved to your wishlist.`
+        );
+      },
+      error: (err: ApiError) => {
+        this.isSaving = false;
+        console.error('Error updating wishlist:', err);
+
+        // 401 is handled by AuthInterceptor (refresh or redirect to login)
+        if (err.status !== 401) {
+          this.notificationService.error(
+            `Failed to update wishlist. ${err.message}`
+          );
+        }
+      },
+    });
+  }
+}
@@ -1,5 +1,5 @@
-import { Injectable } from '@angular/core';
-import { BehaviorSubject, Observable } from 'rxjs';
+import { Injectable, NgZone } from '@angular/core';
+import { BehaviorSubject, Observable, Subject } from 'rxjs';
 
 /**
  * Authentication state interface
@@ -10,11 +10,19 @@ export interface AuthState {
   userId: string | null;
   email: string | null;
   roles: string[];
+  expiresAt: string | null;
+  refreshToken: string | null;
 }
 
+/**
+ * How long before token expiry the session warning is raised
+ */
+export const SESSION_WARNING_LEAD_MS = 2 * 60 * 1000;
+
 /**
  * Auth state store using BehaviorSubject pattern
  * Provides centralized authentication state management
+ * and schedules the session expiry warning / auto-logout
  */
 @Injectable({
   providedIn: 'root',
@@ -26,24 +34,44 @@ export class AuthStore {
     userId: null,
     email: null,
     roles: [],
+    expiresAt: null,
+    refreshToken: null,
   };
 
   private authSubject = new BehaviorSubject<AuthState>(this.initialState);
   public auth$: Observable<AuthState> = this.authSubject.asObservable();
 
-  constructor() {
+  // Session expiry notifications
+  private sessionExpiringSubject = new BehaviorSubject<boolean>(false);
+  public sessionExpiring$: Observable<boolean> =
+    this.sessionExpiringSubject.asObservable();
+  private sessionExpiredSubject = new Subject<void>();
+  public sessionExpired$: Observable<void> =
+    this.sessionExpiredSubject.asObservable();
+  // Raised at expiry when a refresh token can renew the session;
+  // AuthService refreshes it and calls expireSession() if that fails
+  private refreshDueSubject = new BehaviorSubject<boolean>(false);
+  public refreshDue$: Observable<boolean> =
+    this.refreshDueSubject.asObservable();
+
+  private warningTimeoutId: number | null = null;
+  private expiryTimeoutId: number | null = null;
+
+  constructor(private ngZone: NgZone) {
     // Initialize from sessionStorage on app start
     this.loadFromStorage();
   }
 
   /**
-   * Set authentication state after login
+   * Set authentication state after login or token refresh
    */
   setAuth(
     token: string,
     userId: string,
     email: string,
-    roles: string[] = []
+    roles: string[] = [],
+    expiresAt: string | null = null,
+    refreshToken: string | null = null
   ): void {
     const authState: AuthState = {
       isAuthenticated: true,
@@ -51,15 +79,21 @@ export class AuthStore {
       userId,
       email,
       roles,
+      expiresAt,
+      refreshToken,
     };
     this.authSubject.next(authState);
     this.saveToStorage(authState);
+    this.scheduleExpiry(expiresAt);
   }
 
   /**
    * Clear authentication state on logout
    */
   clearAuth(): void {
+    this.clearTimers();
+    this.sessionExpiringSubject.next(false);
+    this.refreshDueSubject.next(false);
     this.authSubject.next(this.initialState);
     this.clearStorage();
   }
@@ -85,6 +119,29 @@ export class AuthStore {
     return this.authSubject.value.token;
   }
 
+  /**
+   * Get refresh token (null when the backend did not issue one)
+   */
+  getRefreshToken(): string | null {
+    return this.authSubject.value.refreshToken;
+  }
+
+  /**
+   * Get token expiry time (ISO string)
+   */
+  getExpiresAt(): string | null {
+    return this.authSubject.value.expiresAt;
+  }
+
+  /**
+   * Milliseconds until the token expires (null when unknown)
+   */
+  getTimeUntilExpiry(): number | null {
+    const expiresAt = this.authSubject.value.expiresAt;
+    if (!expiresAt) return null;
+    return new Date(expiresAt).getTime() - Date.now();
+  }
+
   /**
    * Get user roles
    */
@@ -99,6 +156,66 @@ export class AuthStore {
     return this.authSubject.value.roles.includes(role);
   }
 
+  /**
+   * Log out because the token expired and could not be refreshed
+   */
+  expireSession(): void {
+    this.clearAuth();
+    this.sessionExpiredSubject.next();
+  }
+
+  /**
+   * Schedule the expiry warning and the refresh or logout for the current token
+   */
+  private scheduleExpiry(expiresAt: string | null): void {
+    this.clearTimers();
+    this.sessionExpiringSubject.next(false);
+    this.refreshDueSubject.next(false);
+
+    if (!expiresAt) return;
+
+    const remaining = new Date(expiresAt).getTime() - Date.now();
+    if (isNaN(remaining)) return;
+
+    if (remaining <= 0) {
+      this.handleExpiry();
+      return;
+    }
+
+    // Timers run outside Angular so they don't keep the zone unstable
+    this.ngZone.runOutsideAngular(() => {
+      this.warningTimeoutId = window.setTimeout(() => {
+        this.ngZone.run(() => this.sessionExpiringSubject.next(true));
+      }, Math.max(0, remaining - SESSION_WARNING_LEAD_MS));
+
+      this.expiryTimeoutId = window.setTimeout(() => {
+        this.ngZone.run(() => this.handleExpiry());
+      }, remaining);
+    });
+  }
+
+  /**
+   * Renew the session when a refresh token exists, log out otherwise
+   */
+  private handleExpiry(): void {
+    if (this.authSubject.value.refreshToken) {
+      this.refreshDueSubject.next(true);
+    } else {
+      this.expireSession();
+    }
+  }
+
+  private clearTimers(): void {
+    if (this.warningTimeoutId !== null) {
+      clearTimeout(this.warningTimeoutId);
+      this.warningTimeoutId = null;
+    }
+    if (this.expiryTimeoutId !== null) {
+      clearTimeout(this.expiryTimeoutId);
+      this.expiryTimeoutId = null;
+    }
+  }
+
   /**
    * Load auth state from sessionStorage
    */
@@ -108,6 +225,8 @@ export class AuthStore {
     const email = sessionStorage.getItem('email');
     const rolesJson = sessionStorage.getItem('roles');
     const roles = rolesJson ? JSON.parse(rolesJson) : [];
+    const expiresAt = sessionStorage.getItem('expiresAt');
+    const refreshToken = sessionStorage.getItem('refreshToken');
 
     if (token && userId && email) {
       this.authSubject.next({
@@ -116,7 +235,10 @@ export class AuthStore {
         userId,
         email,
         roles,
+        expiresAt,
+        refreshToken,
       });
+      this.scheduleExpiry(expiresAt);
     }
   }
 
@@ -129,6 +251,17 @@ export class AuthStore {
       sessionStorage.setItem('userId', authState.userId);
       sessionStorage.setItem('email', authState.email);
       sessionStorage.setItem('roles', JSON.stringify(authState.roles));
+
+      if (authState.expiresAt) {
+        sessionStorage.setItem('expiresAt', authState.expiresAt);
+      } else {
+        sessionStorage.removeItem('expiresAt');
+      }
+      if (authState.refreshToken) {
+        sessionStorage.setItem('refreshToken', authState.refreshToken);
+      } else {
+        sessionStorage.removeItem('refreshToken');
+      }
     }
   }
 
@@ -140,5 +273,7 @@ export class AuthStore {
     sessionStorage.removeItem('userId');
     sessionStorage.removeItem('email');
     sessionStorage.removeItem('roles');
+    sessionStorage.removeItem('expiresAt');
+    sessionStorage.removeItem('refreshToken');
   }
 }
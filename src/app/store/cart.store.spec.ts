@@ -0,0 +1,54 @@
+import { TestBed } from '@angular/core/testing';
+
+import { AuthStore } from './auth.store';
+import { CartStore } from './cart.store';
+import { Cart } from '../shared/models';
+
+describe('CartStore', () => {
+  let store: CartStore;
+  let authStore: AuthStore;
+
+  const cart: Cart = {
+    id: 'cart-1',
+    userId: 'user-1',
+    totalAmount: 30,
+    items: [
+      {
+        id: 'item-1',
+        productId: 'product-1',
+        productName: 'Product 1',
+        unitPrice: 10,
+        quantity: 3,
+        totalPrice: 30,
+      },
+    ],
+  };
+
+  beforeEach(() => {
+    sessionStorage.clear();
+    TestBed.configureTestingModule({});
+    authStore = TestBed.inject(AuthStore);
+    store = TestBed.inject(CartStore);
+  });
+
+  it('should derive item count and product quantity', () => {
+    let itemCount = 0;
+    let quantity = 0;
+    store.itemCount$.subscribe((count) => (itemCount = count));
+    store.quantityOf$('product-1').subscribe((q) => (quantity = q));
+
+    store.updateCart(cart);
+
+    expect(itemCount).toBe(3);
+    expect(quantity).toBe(3);
+  });
+
+  it('should reset the cart on logout', () => {
+    authStore.setAuth('token', 'user-1', 'user@example.com');
+    store.updateCart(cart);
+
+    authStore.clearAuth();
+
+    expect(store.getCartValue()).toBeNull();
+  });
+});
@@ -1,53 +1,147 @@
 import { Injectable } from '@angular/core';
 import { BehaviorSubject, Observable } from 'rxjs';
-import { Cart } from '../shared/models';
+import { distinctUntilChanged, map, skip } from 'rxjs/operators';
+import { ApiError, Cart } from '../shared/models';
+import { AuthStore } from './auth.store';
+
+/**
+ * Cart state interface
+ */
+export interface CartState {
+  cart: Cart | null;
+  isLoading: boolean;
+  error: ApiError | null;
+}
 
 /**
  * Cart state store using BehaviorSubject pattern
- * Provides centralized cart state management across the application
+ * Single source of truth for the server cart of the signed-in user.
+ * The state is reset whenever the signed-in user changes (login/logout).
  */
 @Injectable({
-  providedIn: 'root'
+  providedIn: 'root',
 })
 export class CartStore {
-  private cartSubject = new BehaviorSubject<Cart | null>(null);
-  private itemCountSubject = new BehaviorSubject<number>(0);
+  private initialState: CartState = {
+    cart: null,
+    isLoading: false,
+    error: null,
+  };
 
-  public cart$: Observable<Cart | null> = this.cartSubject.asObservable();
-  public itemCount$: Observable<number> = this.itemCountSubject.asObservable();
+  private stateSubject = new BehaviorSubject<CartState>(this.initialState);
+  public state$: Observable<CartState> = this.stateSubject.asObservable();
+
+  // Derived selectors
+  public cart$: Observable<Cart | null> = this.select((state) => state.cart);
+  public itemCount$: Observable<number> = this.select((state) =>
+    this.countItems(state.cart)
+  );
+  public subtotal$: Observable<number> = this.select(
+    (state) => state.cart?.totalAmount ?? 0
+  );
+  public isLoading$: Observable<boolean> = this.select(
+    (state) => state.isLoading
+  );
+  public error$: Observable<ApiError | null> = this.select(
+    (state) => state.error
+  );
+
+  constructor(authStore: AuthStore) {
+    // Never show the previous user's cart after logout or account switch
+    authStore.auth$
+      .pipe(
+        map((auth) => auth.userId),
+        distinctUntilChanged(),
+        skip(1)
+      )
+      .subscribe(() => this.clearCart());
+  }
 
   /**
    * Update the cart state
    */
   updateCart(cart: Cart): void {
-    this.cartSubject.next(cart);
-    this.updateItemCount(cart);
+    this.patchState({ cart, isLoading: false, error: null });
+  }
+
+  /**
+   * Set an item quantity locally and recompute the totals
+   * Used for optimistic updates before the server confirms them
+   */
+  updateItemQuantity(itemId: string, quantity: number): void {
+    const cart = this.stateSubject.value.cart;
+    if (!cart) return;
+
+    const items = cart.items.map((item) =>
+      item.id === itemId
+        ? { ...item, quantity, totalPrice: item.unitPrice * quantity }
+        : item
+    );
+    const totalAmount = items.reduce((sum, item) => sum + item.totalPrice, 0);
+    this.patchState({ cart: { ...cart, items, totalAmount } });
+  }
+
+  /**
+   * Mark a cart request as in flight
+   */
+  setLoading(isLoading: boolean): void {
+    this.patchState({ isLoading });
+  }
+
+  /**
+   * Record a failed cart request
+   */
+  setError(error: ApiError | null): void {
+    this.patchState({ error, isLoading: false });
   }
 
   /**
    * Get current cart value synchronously
    */
   getCartValue(): Cart | null {
-    return this.cartSubject.value;
+    return this.stateSubject.value.cart;
+  }
+
+  /**
+   * Get current item count synchronously
+   */
+  getItemCount(): number {
+    return this.countItems(this.stateSubject.value.cart);
+  }
+
+  /**
+   * Quantity of a product in the cart (0 when not in the cart)
+   */
+  quantityOf$(productId: string): Observable<number> {
+    return this.select(
+      (state) =>
+        state.cart?.items.find((item) => item.productId === productId)
+          ?.quantity ?? 0
+    );
   }
 
   /**
    * Clear the cart
    */
   clearCart(): void {
-    this.cartSubject.next(null);
-    this.itemCountSubject.next(0);
+    this.stateSubject.next(this.initialState);
+  }
+
+  private patchState(changes: Partial<CartState>): void {
+    this.stateSubject.next({ ...this.stateSubject.value, ...changes });
+  }
+
+  private select<T>(selector: (state: CartState) => T): Observable<T> {
+    return this.stateSubject.pipe(map(selector), distinctUntilChanged());
   }
 
   /**
-   * Update item count based on cart items
+   * Count items based on cart item quantities
    */
-  private updateItemCount(cart: Cart | null): void {
+  private countItems(cart: Cart | null): number {
     if (!cart || !cart.items) {
-      this.itemCountSubject.next(0);
-      return;
+      return 0;
     }
-    const count = cart.items.reduce((sum, item) => sum + item.quantity, 0);
-    this.itemCountSubject.next(count);
+    return cart.items.reduce((sum, item) => sum + item.quantity, 0);
   }
 }
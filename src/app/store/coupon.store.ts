@@ -0,0 +1,43 @@
+import { Injectable } from '@angular/core';
+import { BehaviorSubject, Observable } from 'rxjs';
+import { distinctUntilChanged, map, skip } from 'rxjs/operators';
+import { Coupon } from '../shared/models';
+import { AuthStore } from './auth.store';
+
+/**
+ * Coupon store using BehaviorSubject pattern
+ * Holds the promo code applied to the cart, shared by the cart and checkout.
+ * The coupon is dropped whenever the signed-in user changes (login/logout).
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class CouponStore {
+  private couponSubject = new BehaviorSubject<Coupon | null>(null);
+  public coupon$: Observable<Coupon | null> = this.couponSubject.asObservable();
+
+  constructor(authStore: AuthStore) {
+    authStore.auth$
+      .pipe(
+        map((auth) => auth.userId),
+        distinctUntilChanged(),
+        skip(1)
+      )
+      .subscribe(() => this.clear());
+  }
+
+  setCoupon(coupon: Coupon): void {
+    this.couponSubject.next(coupon);
+  }
+
+  /**
+   * Get the applied coupon synchronously
+   */
+  getCouponValue(): Coupon | null {
+    return this.couponSubject.value;
+  }
+
+  clear(): void {
+    this.couponSubject.next(null);
+  }
+}
@@ -0,0 +1,149 @@
+import { Injectable } from '@angular/core';
+import { BehaviorSubject, Observable } from 'rxjs';
+import { map } from 'rxjs/operators';
+import { Cart, CartItem, Product } from '../shared/models';
+
+const GUEST_CART_STORAGE_KEY = 'guestCart';
+
+/**
+ * Guest cart store using BehaviorSubject pattern
+ * Keeps the cart of anonymous users in localStorage until they sign in.
+ * Items use the product id as cart item id since there is no server id yet.
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class GuestCartStore {
+  private cartSubject = new BehaviorSubject<Cart>(this.loadFromStorage());
+  public cart$: Observable<Cart> = this.cartSubject.asObservable();
+  public itemCount$: Observable<number> = this.cart$.pipe(
+    map((cart) => cart.items.reduce((sum, item) => sum + item.quantity, 0))
+  );
+
+  /**
+   * Get current guest cart synchronously
+   */
+  getCartValue(): Cart {
+    return this.cartSubject.value;
+  }
+
+  /**
+   * Check if the guest cart has any items
+   */
+  hasItems(): boolean {
+    return this.cartSubject.value.items.length > 0;
+  }
+
+  /**
+   * Add a product, increasing the quantity if it is already in the cart
+   */
+  addItem(product: Product, quantity: number = 1): void {
+    const items = this.cartSubject.value.items;
+    const existing = items.find((item) => item.productId === product.id);
+
+    if (existing) {
+      this.updateQuantity(product.id, existing.quantity + quantity);
+      return;
+    }
+
+    this.setItems([
+      ...items,
+      this.buildItem(
+        {
+          id: product.id,
+          productId: product.id,
+          productName: product.name,
+          unitPrice: product.price,
+          imageUrl: product.mainImageUrl,
+          stockQuantity: product.stockQuantity,
+        },
+        quantity
+      ),
+    ]);
+  }
+
+  /**
+   * Set the quantity of a product (removes it when quantity < 1)
+   */
+  updateQuantity(productId: string, quantity: number): void {
+    if (quantity < 1) {
+      this.removeItem(productId);
+      return;
+    }
+
+    this.setItems(
+      this.cartSubject.value.items.map((item) =>
+        item.productId === productId ? this.buildItem(item, quantity) : item
+      )
+    );
+  }
+
+  /**
+   * Remove a product from the guest cart
+   */
+  removeItem(productId: string): void {
+    this.setItems(
+      this.cartSubject.value.items.filter(
+        (item) => item.productId !== productId
+      )
+    );
+  }
+
+  /**
+   * Clear the guest cart (e.g. after it was merged into the server cart)
+   */
+  clearCart(): void {
+    this.setItems([]);
+  }
+
+  private buildItem(
+    item: Omit<CartItem, 'quantity' | 'totalPrice'>,
+    quantity: number
+  ): CartItem {
+    return {
+      ...item,
+      quantity,
+      totalPrice: item.unitPrice * quantity,
+    };
+  }
+
+  private setItems(items: CartItem[]): void {
+    const cart = this.createCart(items);
+    this.cartSubject.next(cart);
+    this.saveToStorage(cart);
+  }
+
+  private createCart(items: CartItem[]): Cart {
+    return {
+      id: '',
+      userId: '',
+      items,
+      totalAmount: items.reduce((sum, item) => sum + item.totalPrice, 0),
+    };
+  }
+
+  /**
+   * Load guest cart from localStorage (ignores corrupted data)
+   */
+  private loadFromStorage(): Cart {
+    try {
+      const json = localStorage.getItem(GUEST_CART_STORAGE_KEY);
+      const items: CartItem[] = json ? JSON.parse(json) : [];
+      return this.createCart(Array.isArray(items) ? items : []);
+    } catch (error) {
+      console.error('Error reading guest cart:', error);
+      return this.createCart([]);
+    }
+  }
+
+  /**
+   * Save guest cart items to localStorage
+   */
+  private saveToStorage(cart: Cart): void {
+    if (cart.items.length > 0) {
+      localStorage.setItem(GUEST_CART_STORAGE_KEY, JSON.stringify(cart.items));
+    } else {
+      localStorage.removeItem(GUEST_CART_STORAGE_KEY);
+    }
+  }
+}
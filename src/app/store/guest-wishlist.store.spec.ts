@@ -0,0 +1,32 @@
+import { TestBed } from '@angular/core/testing';
+
+import { GuestWishlistStore } from './guest-wishlist.store';
+import { Product } from '../shared/models';
+
+describe('GuestWishlistStore', () => {
+  let store: GuestWishlistStore;
+
+  const product: Product = { id: 'product-1', name: 'Product 1', price: 10 };
+
+  beforeEach(() => {
+    localStorage.clear();
+    TestBed.configureTestingModule({});
+    store = TestBed.inject(GuestWishlistStore);
+  });
+
+  it('should keep one entry per product in localStorage', () => {
+    store.addItem(product);
+    store.addItem(product);
+
+    expect(store.getItemsValue().length).toBe(1);
+    expect(localStorage.getItem('guestWishlist')).toContain('product-1');
+  });
+
+  it('should remove the storage entry once empty', () => {
+    store.addItem(product);
+    store.removeItem(product.id);
+
+    expect(store.getItemsValue()).toEqual([]);
+    expect(localStorage.getItem('guestWishlist')).toBeNull();
+  });
+});
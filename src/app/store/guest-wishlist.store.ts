@@ -0,0 +1,96 @@
+import { Injectable } from '@angular/core';
+import { BehaviorSubject, Observable } from 'rxjs';
+import { map } from 'rxjs/operators';
+import { Product, WishlistItem } from '../shared/models';
+
+const GUEST_WISHLIST_STORAGE_KEY = 'guestWishlist';
+
+/**
+ * Guest wishlist store using BehaviorSubject pattern
+ * Keeps the wishlist of anonymous users in localStorage until they sign in
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class GuestWishlistStore {
+  private itemsSubject = new BehaviorSubject<WishlistItem[]>(
+    this.loadFromStorage()
+  );
+  public items$: Observable<WishlistItem[]> = this.itemsSubject.asObservable();
+  public count$: Observable<number> = this.items$.pipe(
+    map((items) => items.length)
+  );
+
+  /**
+   * Get current guest wishlist items synchronously
+   */
+  getItemsValue(): WishlistItem[] {
+    return this.itemsSubject.value;
+  }
+
+  /**
+   * Add a product; newest items come first, duplicates are ignored
+   */
+  addItem(product: Product): void {
+    const items = this.itemsSubject.value;
+    if (items.some((item) => item.productId === product.id)) return;
+
+    this.setItems([
+      {
+        productId: product.id,
+        productName: product.name,
+        price: product.price,
+        imageUrl: product.mainImageUrl,
+        stockQuantity: product.stockQuantity,
+        addedAt: new Date().toISOString(),
+      },
+      ...items,
+    ]);
+  }
+
+  /**
+   * Remove a product from the guest wishlist
+   */
+  removeItem(productId: string): void {
+    this.setItems(
+      this.itemsSubject.value.filter((item) => item.productId !== productId)
+    );
+  }
+
+  /**
+   * Clear the guest wishlist (e.g. after it was merged into the account)
+   */
+  clear(): void {
+    this.setItems([]);
+  }
+
+  private setItems(items: WishlistItem[]): void {
+    this.itemsSubject.next(items);
+    this.saveToStorage(items);
+  }
+
+  /**
+   * Load guest wishlist from localStorage (ignores corrupted data)
+   */
+  private loadFromStorage(): WishlistItem[] {
+    try {
+      const json = localStorage.getItem(GUEST_WISHLIST_STORAGE_KEY);
+      const items: WishlistItem[] = json ? JSON.parse(json) : [];
+      return Array.isArray(items) ? items : [];
+    } catch (error) {
+      console.error('Error reading guest wishlist:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Save guest wishlist items to localStorage
+   */
+  private saveToStorage(items: WishlistItem[]): void {
+    if (items.length > 0) {
+      localStorage.setItem(GUEST_WISHLIST_STORAGE_KEY, JSON.stringify(items));
+    } else {
+      localStorage.removeItem(GUEST_WISHLIST_STORAGE_KEY);
+    }
+  }
+}
@@ -5,3 +5,8 @@
 
 export * from './cart.store';
 export * from './auth.store';
+export * from './guest-cart.store';
+export * from './wishlist.store';
+export * from './guest-wishlist.store';
+export * from './recently-viewed.store';
+export * from './coupon.store';
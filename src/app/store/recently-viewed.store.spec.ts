@@ -0,0 +1,47 @@
+import { TestBed } from '@angular/core/testing';
+
+import {
+  MAX_RECENTLY_VIEWED,
+  RecentlyViewedStore,
+} from './recently-viewed.store';
+import { Product } from '../shared/models';
+
+describe('RecentlyViewedStore', () => {
+  let store: RecentlyViewedStore;
+
+  const product = (id: number): Product => ({
+    id: `product-${id}`,
+    name: `Product ${id}`,
+    price: id,
+  });
+
+  beforeEach(() => {
+    localStorage.clear();
+    TestBed.configureTestingModule({});
+    store = TestBed.inject(RecentlyViewedStore);
+  });
+
+  it('should keep products newest first without duplicates', () => {
+    store.addProduct(product(1));
+    store.addProduct(product(2));
+    store.addProduct(product(1));
+
+    expect(store.getProductsValue().map((p) => p.id)).toEqual([
+      'product-1',
+      'product-2',
+    ]);
+  });
+
+  it('should drop the oldest products beyond the cap', () => {
+    for (let i = 1; i <= MAX_RECENTLY_VIEWED + 2; i++) {
+      store.addProduct(product(i));
+    }
+
+    const products = store.getProductsValue();
+    expect(products.length).toBe(MAX_RECENTLY_VIEWED);
+    expect(products[0].id).toBe(`product-${MAX_RECENTLY_VIEWED + 2}`);
+    expect(JSON.parse(localStorage.getItem('recentlyViewed')!).length).toBe(
+      MAX_RECENTLY_VIEWED
+    );
+  });
+});
@@ -0,0 +1,77 @@
+import { Injectable } from '@angular/core';
+import { BehaviorSubject, Observable } from 'rxjs';
+import { Product } from '../shared/models';
+
+const RECENTLY_VIEWED_STORAGE_KEY = 'recentlyViewed';
+
+/**
+ * How many products the recently viewed list keeps
+ */
+export const MAX_RECENTLY_VIEWED = 12;
+
+/**
+ * Recently viewed products store using BehaviorSubject pattern
+ * Kept in localStorage, newest first, one entry per product
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class RecentlyViewedStore {
+  private productsSubject = new BehaviorSubject<Product[]>(
+    this.loadFromStorage()
+  );
+  public products$: Observable<Product[]> = this.productsSubject.asObservable();
+
+  /**
+   * Get recently viewed products synchronously
+   */
+  getProductsValue(): Product[] {
+    return this.productsSubject.value;
+  }
+
+  /**
+   * Move a product to the front of the list, dropping the oldest beyond the cap
+   */
+  addProduct(product: Product): void {
+    const entry: Product = {
+      id: product.id,
+      name: product.name,
+      description: product.description,
+      price: product.price,
+      mainImageUrl: product.mainImageUrl,
+      stockQuantity: product.stockQuantity,
+    };
+    const products = [
+      entry,
+      ...this.productsSubject.value.filter((p) => p.id !== product.id),
+    ].slice(0, MAX_RECENTLY_VIEWED);
+
+    this.productsSubject.next(products);
+    this.saveToStorage(products);
+  }
+
+  clear(): void {
+    this.productsSubject.next([]);
+    localStorage.removeItem(RECENTLY_VIEWED_STORAGE_KEY);
+  }
+
+  /**
+   * Load recently viewed products from localStorage (ignores corrupted data)
+   */
+  private loadFromStorage(): Product[] {
+    try {
+      const json = localStorage.getItem(RECENTLY_VIEWED_STORAGE_KEY);
+      const products: Product[] = json ? JSON.parse(json) : [];
+      return Array.isArray(products)
+        ? products.slice(0, MAX_RECENTLY_VIEWED)
+        : [];
+    } catch (error) {
+      console.error('Error reading recently viewed products:', error);
+      return [];
+    }
+  }
+
+  private saveToStorage(products: Product[]): void {
+    localStorage.setItem(RECENTLY_VIEWED_STORAGE_KEY, JSON.stringify(products));
+  }
+}
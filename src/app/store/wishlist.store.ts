@@ -0,0 +1,64 @@
+import { Injectable } from '@angular/core';
+import { BehaviorSubject, Observable } from 'rxjs';
+import { distinctUntilChanged, map, skip } from 'rxjs/operators';
+import { WishlistItem } from '../shared/models';
+import { AuthStore } from './auth.store';
+
+/**
+ * Wishlist store using BehaviorSubject pattern
+ * Holds the server wishlist of the signed-in user; `null` until loaded.
+ * The state is reset whenever the signed-in user changes (login/logout).
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class WishlistStore {
+  private itemsSubject = new BehaviorSubject<WishlistItem[] | null>(null);
+  public items$: Observable<WishlistItem[]> = this.itemsSubject.pipe(
+    map((items) => items ?? [])
+  );
+  public count$: Observable<number> = this.items$.pipe(
+    map((items) => items.length),
+    distinctUntilChanged()
+  );
+  public isLoaded$: Observable<boolean> = this.itemsSubject.pipe(
+    map((items) => items !== null),
+    distinctUntilChanged()
+  );
+
+  constructor(authStore: AuthStore) {
+    // Never show the previous user's wishlist after logout or account switch
+    authStore.auth$
+      .pipe(
+        map((auth) => auth.userId),
+        distinctUntilChanged(),
+        skip(1)
+      )
+      .subscribe(() => this.clear());
+  }
+
+  /**
+   * Replace the wishlist with a server response
+   */
+  setItems(items: WishlistItem[]): void {
+    this.itemsSubject.next(items);
+  }
+
+  /**
+   * Get current wishlist items synchronously
+   */
+  getItemsValue(): WishlistItem[] {
+    return this.itemsSubject.value ?? [];
+  }
+
+  /**
+   * Check if the wishlist has been loaded from the server
+   */
+  isLoaded(): boolean {
+    return this.itemsSubject.value !== null;
+  }
+
+  clear(): void {
+    this.itemsSubject.next(null);
+  }
+}
@@ -0,0 +1,10 @@
+/**
+ * Development environment defaults (replaces environment.ts in dev builds)
+ * Values can be overridden at startup by `assets/config.json`
+ */
+export const environment = {
+  production: false,
+  apiBaseUrl: 'http://localhost:5296/api',
+  supportsIdempotencyKeys: false,
+  runtimeConfigUrl: 'assets/config.json',
+};
@@ -0,0 +1,10 @@
+/**
+ * Production environment defaults
+ * Values can be overridden at startup by `assets/config.json`
+ */
+export const environment = {
+  production: true,
+  apiBaseUrl: 'http://localhost:5296/api',
+  supportsIdempotencyKeys: false,
+  runtimeConfigUrl: 'assets/config.json',
+};